@@ -0,0 +1,113 @@
+// Code based on https://github.com/decs/typeschema/blob/main/packages/typebox/src/validation.ts
+// MIT License
+// Copyright (c) 2023 André Costa
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+import type { TSchema } from '@sinclair/typebox';
+import { type TypeCheck, TypeCompiler } from '@sinclair/typebox/compiler';
+import { TransformDecodeError, Value } from '@sinclair/typebox/value';
+
+import type { IfInstalled, Infer, JsonSchema, ValidateOptions, ValidationAdapter, ValidationIssue } from './types';
+
+const checkers = new WeakMap<TSchema, TypeCheck<TSchema>>();
+
+function getChecker<S extends TSchema>(schema: S) {
+  let checker = checkers.get(schema);
+  if (!checker) {
+    checker = TypeCompiler.Compile(schema);
+    checkers.set(schema, checker);
+  }
+
+  return checker as TypeCheck<S>;
+}
+
+function pointerToPath(pointer: string) {
+  if (pointer.length === 0) {
+    return undefined;
+  }
+
+  return pointer
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+class TypeBoxAdapter implements ValidationAdapter {
+  async validate<S extends IfInstalled<TSchema>>(schema: S, data: unknown, options?: ValidateOptions) {
+    const checker = getChecker(schema);
+    const clone = Value.Clone(data);
+    const value = Value.Convert(
+      schema,
+      Value.Default(schema, options?.stripUnknown ? Value.Clean(schema, clone) : clone),
+    );
+
+    if (checker.Check(value)) {
+      try {
+        return {
+          success: true,
+          data: checker.Decode(value) as Infer<S>,
+        } as const;
+      } catch (error) {
+        // Transforms reject values by throwing from their decode function
+        if (!(error instanceof TransformDecodeError)) {
+          throw error;
+        }
+
+        return {
+          success: false,
+          issues: [{ message: error.message, path: pointerToPath(error.path) }] as ValidationIssue[],
+        } as const;
+      }
+    }
+
+    return {
+      success: false,
+      issues: [...checker.Errors(value)].map(({ message, path }) => ({
+        message,
+        path: pointerToPath(path),
+      })) as ValidationIssue[],
+    } as const;
+  }
+
+  toJsonSchema<S extends IfInstalled<TSchema>>(schema: S) {
+    // TypeBox schemas are JSON Schema already, with symbol keys for its own metadata that serialization drops
+    return JSON.parse(JSON.stringify(schema)) as JsonSchema;
+  }
+
+  merge(base: IfInstalled<TSchema>, extension: IfInstalled<TSchema>) {
+    if (base.type !== 'object' || extension.type !== 'object') {
+      throw new Error('Only object schemas can be merged');
+    }
+
+    const properties: Record<string, TSchema> = { ...base.properties, ...extension.properties };
+    const required = [
+      ...((base.required as string[] | undefined) ?? []).filter((key) => !(key in extension.properties)),
+      ...((extension.required as string[] | undefined) ?? []),
+    ];
+
+    // Spreading the base schema keeps the symbol keys TypeBox uses to identify the kind of the schema
+    const merged: TSchema = { ...base, properties, required };
+    if (required.length === 0) {
+      delete merged.required;
+    }
+
+    return merged;
+  }
+}
+
+export function typeboxAdapter() {
+  return new TypeBoxAdapter();
+}
@@ -14,8 +14,24 @@ export type Schema =
   | IfInstalled<YupSchema>
   | IfInstalled<TSchema>;
 
-export type Infer<S extends Schema> =
-  S extends IfInstalled<z.ZodType>
+declare const mergedSchemas: unique symbol;
+
+/**
+ * The type of an object schema merged into another by the builder, whose keys override those of the base schema
+ */
+export type MergedSchema<TBase extends Schema, TExtension extends Schema> = TBase & {
+  readonly [mergedSchemas]: [TBase, TExtension];
+};
+
+type MergeObjects<TBase, TExtension> = Omit<TBase, keyof TExtension> & TExtension;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+export type Infer<S extends Schema> = S extends {
+  readonly [mergedSchemas]: [infer TBase extends Schema, infer TExtension extends Schema];
+}
+  ? Simplify<MergeObjects<Infer<TBase>, Infer<TExtension>>>
+  : S extends IfInstalled<z.ZodType>
     ? z.infer<S>
     : S extends IfInstalled<GenericSchema>
       ? InferOutput<S>
@@ -27,8 +43,11 @@ export type Infer<S extends Schema> =
             ? Static<S>
             : never;
 
-export type InferIn<S extends Schema> =
-  S extends IfInstalled<z.ZodType>
+export type InferIn<S extends Schema> = S extends {
+  readonly [mergedSchemas]: [infer TBase extends Schema, infer TExtension extends Schema];
+}
+  ? Simplify<MergeObjects<InferIn<TBase>, InferIn<TExtension>>>
+  : S extends IfInstalled<z.ZodType>
     ? z.input<S>
     : S extends IfInstalled<GenericSchema>
       ? InferInput<S>
@@ -47,39 +66,85 @@ export type InferInArray<BAS extends readonly Schema[]> = {
   [K in keyof BAS]: InferIn<BAS[K]>;
 };
 
+/**
+ * A single validation failure reported by an adapter
+ */
 export type ValidationIssue = {
   message: string;
   path?: Array<string | number | symbol>;
 };
 
+/**
+ * A JSON Schema (draft 2020-12) object, as used by OpenAPI 3.1
+ */
+export type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  description?: string;
+  [keyword: string]: unknown;
+};
+
+/**
+ * Options passed by the builder to `validate`
+ */
+export type ValidateOptions = {
+  /**
+   * Whether keys unknown to object schemas are removed from the output, which the builder only asks for responses
+   */
+  stripUnknown?: boolean;
+};
+
+/**
+ * Bridge between the route handler builder and a validation library.
+ *
+ * Implement this interface to plug in a library that is not shipped with next-safe-route and pass an instance to
+ * `createSafeRoute({ validationAdapter })`. `validate` must never throw for invalid input; it should resolve with
+ * `success: false` and the list of issues instead, and resolve with the parsed output (after any transforms,
+ * coercions or defaults) on success. With `stripUnknown`, keys unknown to object schemas should be removed from the
+ * output rather than kept. `toJsonSchema` is optional and only used to generate OpenAPI documents; schemas
+ * of adapters without it are documented as `{}`, which accepts any value. `merge` is optional and only used when a
+ * schema is defined again for a segment that already has one, e.g. by a route extending a base builder; it should
+ * return an object schema with the keys of both, those of the extension overriding those of the base, and throw for
+ * schemas that are not objects.
+ */
 export interface ValidationAdapter {
+  toJsonSchema?(schema: Schema): JsonSchema;
+  merge?(base: Schema, extension: Schema): Schema;
   // generic
   validate<S extends Schema>(
     schema: S,
     data: unknown,
+    options?: ValidateOptions,
   ): Promise<{ success: true; data: Infer<S> } | { success: false; issues: ValidationIssue[] }>;
   // zod
   validate<S extends IfInstalled<z.ZodType>>(
     schema: S,
     data: unknown,
+    options?: ValidateOptions,
   ): Promise<{ success: true; data: Infer<S> } | { success: false; issues: ValidationIssue[] }>;
   // valibot
   validate<S extends IfInstalled<GenericSchema>>(
     schema: S,
     data: unknown,
+    options?: ValidateOptions,
   ): Promise<{ success: true; data: Infer<S> } | { success: false; issues: ValidationIssue[] }>;
   validate<S extends IfInstalled<GenericSchemaAsync>>(
     schema: S,
     data: unknown,
+    options?: ValidateOptions,
   ): Promise<{ success: true; data: Infer<S> } | { success: false; issues: ValidationIssue[] }>;
   // yup
   validate<S extends IfInstalled<YupSchema>>(
     schema: S,
     data: unknown,
+    options?: ValidateOptions,
   ): Promise<{ success: true; data: Infer<S> } | { success: false; issues: ValidationIssue[] }>;
   // typebox
   validate<S extends IfInstalled<TSchema>>(
     schema: S,
     data: unknown,
+    options?: ValidateOptions,
   ): Promise<{ success: true; data: Infer<S> } | { success: false; issues: ValidationIssue[] }>;
 }
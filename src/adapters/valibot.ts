@@ -16,9 +16,172 @@
 // LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
 // OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 // SOFTWARE.
-import { type GenericSchema, type GenericSchemaAsync, getDotPath, safeParseAsync } from 'valibot';
+import {
+  type GenericSchema,
+  type GenericSchemaAsync,
+  getDotPath,
+  looseObject,
+  looseObjectAsync,
+  object,
+  objectAsync,
+  objectWithRest,
+  objectWithRestAsync,
+  safeParseAsync,
+  strictObject,
+  strictObjectAsync,
+} from 'valibot';
 
-import type { IfInstalled, Infer, ValidationAdapter } from './types';
+import type { IfInstalled, Infer, JsonSchema, ValidationAdapter } from './types';
+
+const stringFormats: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  iso_timestamp: 'date-time',
+  iso_date_time: 'date-time',
+  iso_date: 'date',
+  iso_time: 'time',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+// From the least to the most strict about unknown keys
+const objectTypes = ['loose_object', 'object', 'object_with_rest', 'strict_object'];
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function applyAction(jsonSchema: JsonSchema, action: any) {
+  const isArray = jsonSchema.type === 'array';
+  switch (action.type) {
+    case 'min_length':
+      jsonSchema[isArray ? 'minItems' : 'minLength'] = action.requirement;
+      break;
+    case 'max_length':
+      jsonSchema[isArray ? 'maxItems' : 'maxLength'] = action.requirement;
+      break;
+    case 'length':
+      jsonSchema[isArray ? 'minItems' : 'minLength'] = action.requirement;
+      jsonSchema[isArray ? 'maxItems' : 'maxLength'] = action.requirement;
+      break;
+    case 'min_value':
+      jsonSchema.minimum = action.requirement;
+      break;
+    case 'max_value':
+      jsonSchema.maximum = action.requirement;
+      break;
+    case 'integer':
+      jsonSchema.type = 'integer';
+      break;
+    case 'regex':
+      jsonSchema.pattern = action.requirement.source;
+      break;
+    case 'description':
+      jsonSchema.description = action.description;
+      break;
+    default:
+      if (stringFormats[action.type]) {
+        jsonSchema.format = stringFormats[action.type];
+      }
+  }
+}
+
+function isOptional(schema: any) {
+  return schema.type === 'optional' || schema.type === 'nullish';
+}
+
+function getDefault(schema: any) {
+  return typeof schema.default === 'function' ? schema.default() : schema.default;
+}
+
+function toJsonSchema(schema: any): JsonSchema {
+  const jsonSchema = convert(schema);
+  for (const action of schema.pipe?.slice(1) ?? []) {
+    applyAction(jsonSchema, action);
+  }
+
+  return jsonSchema;
+}
+
+function convert(schema: any): JsonSchema {
+  switch (schema.type) {
+    case 'string':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'bigint':
+      return { type: 'integer', format: 'int64' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'null':
+      return { type: 'null' };
+    case 'literal':
+      return { const: schema.literal };
+    case 'picklist':
+    case 'enum':
+      return { enum: schema.options };
+    case 'array':
+      return { type: 'array', items: toJsonSchema(schema.item) };
+    case 'tuple':
+    case 'strict_tuple':
+    case 'loose_tuple':
+      return { type: 'array', prefixItems: schema.items.map(toJsonSchema) };
+    case 'object':
+    case 'strict_object':
+    case 'loose_object':
+    case 'object_with_rest': {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(schema.entries)) {
+        properties[key] = toJsonSchema(value);
+        if (!isOptional(value)) {
+          required.push(key);
+        }
+      }
+
+      const jsonSchema: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) {
+        jsonSchema.required = required;
+      }
+      if (schema.type === 'strict_object') {
+        jsonSchema.additionalProperties = false;
+      } else if (schema.type === 'object_with_rest') {
+        jsonSchema.additionalProperties = toJsonSchema(schema.rest);
+      }
+      return jsonSchema;
+    }
+    case 'record':
+      return { type: 'object', additionalProperties: toJsonSchema(schema.value) };
+    case 'union':
+    case 'variant':
+      return { anyOf: schema.options.map(toJsonSchema) };
+    case 'intersect':
+      return { allOf: schema.options.map(toJsonSchema) };
+    case 'optional':
+    case 'non_optional':
+    case 'undefinedable': {
+      const jsonSchema = toJsonSchema(schema.wrapped);
+      const defaultValue = getDefault(schema);
+      return defaultValue === undefined ? jsonSchema : { ...jsonSchema, default: defaultValue };
+    }
+    case 'nullable':
+    case 'nullish': {
+      const jsonSchema: JsonSchema = { anyOf: [toJsonSchema(schema.wrapped), { type: 'null' }] };
+      const defaultValue = getDefault(schema);
+      return defaultValue === undefined ? jsonSchema : { ...jsonSchema, default: defaultValue };
+    }
+    default:
+      return {};
+  }
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+function isObjectSchema(
+  schema: GenericSchema | GenericSchemaAsync,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): schema is (GenericSchema | GenericSchemaAsync) & { entries: Record<string, any>; rest?: any; message?: any } {
+  return objectTypes.includes(schema.type) && 'entries' in schema && !('pipe' in schema);
+}
 
 class ValibotAdapter implements ValidationAdapter {
   async validate<S extends IfInstalled<GenericSchema | GenericSchemaAsync>>(schema: S, data: unknown) {
@@ -39,6 +202,36 @@ class ValibotAdapter implements ValidationAdapter {
       })),
     } as const;
   }
+
+  toJsonSchema<S extends IfInstalled<GenericSchema | GenericSchemaAsync>>(schema: S) {
+    return toJsonSchema(schema);
+  }
+
+  merge(
+    base: IfInstalled<GenericSchema | GenericSchemaAsync>,
+    extension: IfInstalled<GenericSchema | GenericSchemaAsync>,
+  ) {
+    // The entries of schemas wrapped in a pipe can't be merged without dropping the pipe
+    if (!isObjectSchema(base) || !isObjectSchema(extension)) {
+      throw new Error('Only object schemas without pipes can be merged');
+    }
+
+    // Keep the stricter kind of object, and validate asynchronously if either schema has async entries
+    const [strictest] = [extension, base].sort((a, b) => objectTypes.indexOf(b.type) - objectTypes.indexOf(a.type));
+    const { type, rest, message } = strictest!;
+    const entries = { ...base.entries, ...extension.entries };
+    const isAsync = base.async || extension.async || rest?.async === true;
+    switch (type) {
+      case 'loose_object':
+        return isAsync ? looseObjectAsync(entries, message) : looseObject(entries, message);
+      case 'strict_object':
+        return isAsync ? strictObjectAsync(entries, message) : strictObject(entries, message);
+      case 'object_with_rest':
+        return isAsync ? objectWithRestAsync(entries, rest, message) : objectWithRest(entries, rest, message);
+      default:
+        return isAsync ? objectAsync(entries, message) : object(entries, message);
+    }
+  }
 }
 
 export function valibotAdapter() {
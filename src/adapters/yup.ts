@@ -16,15 +16,110 @@
 // LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
 // OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
 // SOFTWARE.
-import type { Schema as YupSchema } from 'yup';
+import type { AnyObjectSchema, SchemaDescription, Schema as YupSchema } from 'yup';
 import { ValidationError } from 'yup';
 
-import type { IfInstalled, Infer, ValidationAdapter, ValidationIssue } from './types';
+import type { IfInstalled, Infer, JsonSchema, ValidateOptions, ValidationAdapter, ValidationIssue } from './types';
+
+const stringFormats: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+};
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function applyTest(jsonSchema: JsonSchema, { name, params }: { name?: string; params?: any }) {
+  const isString = jsonSchema.type === 'string';
+  const isArray = jsonSchema.type === 'array';
+  if (name === 'min' || name === 'max' || name === 'length') {
+    if (isString || isArray) {
+      const suffix = isString ? 'Length' : 'Items';
+      if (name !== 'max') {
+        jsonSchema[`min${suffix}`] = params.min ?? params.length;
+      }
+      if (name !== 'min') {
+        jsonSchema[`max${suffix}`] = params.max ?? params.length;
+      }
+    } else if (params.more !== undefined) {
+      jsonSchema.exclusiveMinimum = params.more;
+    } else if (params.less !== undefined) {
+      jsonSchema.exclusiveMaximum = params.less;
+    } else {
+      jsonSchema[name === 'min' ? 'minimum' : 'maximum'] = params.min ?? params.max;
+    }
+  } else if (name === 'integer') {
+    jsonSchema.type = 'integer';
+  } else if (name === 'matches' && params.regex) {
+    jsonSchema.pattern = params.regex.source;
+  } else if (name && stringFormats[name]) {
+    jsonSchema.format = stringFormats[name];
+  }
+}
+
+function convert(description: any): JsonSchema {
+  switch (description.type) {
+    case 'string':
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'date':
+      return { type: 'string', format: 'date-time' };
+    case 'array':
+      return description.innerType ? { type: 'array', items: toJsonSchema(description.innerType) } : { type: 'array' };
+    case 'tuple':
+      return { type: 'array', prefixItems: description.innerType.map(toJsonSchema) };
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries<any>(description.fields)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.optional) {
+          required.push(key);
+        }
+      }
+
+      const jsonSchema: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) {
+        jsonSchema.required = required;
+      }
+      return jsonSchema;
+    }
+    default:
+      return {};
+  }
+}
+
+function toJsonSchema(description: SchemaDescription): JsonSchema {
+  let jsonSchema = convert(description);
+  for (const test of description.tests) {
+    applyTest(jsonSchema, test);
+  }
+
+  const oneOf = description.oneOf.filter((value) => value !== undefined);
+  if (oneOf.length > 0) {
+    jsonSchema.enum = oneOf;
+  }
+  if (description.label) {
+    jsonSchema.description = description.label;
+  }
+  if (description.nullable) {
+    jsonSchema = { anyOf: [jsonSchema, { type: 'null' }] };
+  }
+  // Objects describe the defaults of their fields, which are already documented on each field
+  if (description.type !== 'object' && 'default' in description && description.default !== undefined) {
+    jsonSchema.default = description.default;
+  }
+
+  return jsonSchema;
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
 
 class YupAdapter implements ValidationAdapter {
-  async validate<S extends IfInstalled<YupSchema>>(schema: S, data: unknown) {
+  async validate<S extends IfInstalled<YupSchema>>(schema: S, data: unknown, options?: ValidateOptions) {
     try {
-      const result = await schema.validate(data, { strict: true });
+      const result = await schema.validate(data, { stripUnknown: options?.stripUnknown ?? false });
 
       return {
         success: true,
@@ -48,6 +143,19 @@ class YupAdapter implements ValidationAdapter {
       throw e;
     }
   }
+
+  toJsonSchema<S extends IfInstalled<YupSchema>>(schema: S) {
+    return toJsonSchema(schema.describe() as SchemaDescription);
+  }
+
+  merge(base: IfInstalled<YupSchema>, extension: IfInstalled<YupSchema>) {
+    if (base.type !== 'object' || extension.type !== 'object') {
+      throw new Error('Only object schemas can be merged');
+    }
+
+    // Concatenating object schemas merges their fields, those of the extension overriding those of the base
+    return (base as AnyObjectSchema).concat(extension as AnyObjectSchema);
+  }
 }
 
 export function yupAdapter() {
@@ -18,7 +18,159 @@
 // SOFTWARE.
 import type { z } from 'zod';
 
-import type { IfInstalled, Infer, ValidationAdapter } from './types';
+import type { IfInstalled, Infer, JsonSchema, ValidationAdapter } from './types';
+
+type ZodCheck = { kind: string; value?: number; inclusive?: boolean; regex?: RegExp };
+
+const stringFormats: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  ip: 'ip',
+};
+
+function stringToJsonSchema(checks: ZodCheck[]) {
+  const jsonSchema: JsonSchema = { type: 'string' };
+  for (const check of checks) {
+    if (check.kind === 'min') {
+      jsonSchema.minLength = check.value;
+    } else if (check.kind === 'max') {
+      jsonSchema.maxLength = check.value;
+    } else if (check.kind === 'length') {
+      jsonSchema.minLength = check.value;
+      jsonSchema.maxLength = check.value;
+    } else if (check.kind === 'regex' && check.regex) {
+      jsonSchema.pattern = check.regex.source;
+    } else if (stringFormats[check.kind]) {
+      jsonSchema.format = stringFormats[check.kind];
+    }
+  }
+
+  return jsonSchema;
+}
+
+function numberToJsonSchema(checks: ZodCheck[]) {
+  const jsonSchema: JsonSchema = { type: 'number' };
+  for (const check of checks) {
+    if (check.kind === 'int') {
+      jsonSchema.type = 'integer';
+    } else if (check.kind === 'min') {
+      jsonSchema[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    } else if (check.kind === 'max') {
+      jsonSchema[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    } else if (check.kind === 'multipleOf') {
+      jsonSchema.multipleOf = check.value;
+    }
+  }
+
+  return jsonSchema;
+}
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const jsonSchema = convert(schema._def);
+  if (schema.description) {
+    jsonSchema.description = schema.description;
+  }
+
+  return jsonSchema;
+}
+
+function convert(def: any): JsonSchema {
+  switch (def.typeName) {
+    case 'ZodString':
+      return stringToJsonSchema(def.checks);
+    case 'ZodNumber':
+      return numberToJsonSchema(def.checks);
+    case 'ZodBigInt':
+      return { type: 'integer', format: 'int64' };
+    case 'ZodBoolean':
+      return { type: 'boolean' };
+    case 'ZodDate':
+      return { type: 'string', format: 'date-time' };
+    case 'ZodNull':
+      return { type: 'null' };
+    case 'ZodLiteral':
+      return { const: def.value };
+    case 'ZodEnum':
+      return { type: 'string', enum: def.values };
+    case 'ZodNativeEnum': {
+      // Numeric enums map their values back to their keys, which must not be listed
+      const values = Object.entries(def.values)
+        .filter(([key]) => typeof def.values[def.values[key]] !== 'number')
+        .map(([, value]) => value);
+      return { enum: values };
+    }
+    case 'ZodArray': {
+      const jsonSchema: JsonSchema = { type: 'array', items: toJsonSchema(def.type) };
+      if (def.minLength) {
+        jsonSchema.minItems = def.minLength.value;
+      }
+      if (def.maxLength) {
+        jsonSchema.maxItems = def.maxLength.value;
+      }
+      if (def.exactLength) {
+        jsonSchema.minItems = def.exactLength.value;
+        jsonSchema.maxItems = def.exactLength.value;
+      }
+      return jsonSchema;
+    }
+    case 'ZodTuple':
+      return { type: 'array', prefixItems: def.items.map(toJsonSchema) };
+    case 'ZodObject': {
+      const shape: Record<string, z.ZodTypeAny> = def.shape();
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+
+      const jsonSchema: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) {
+        jsonSchema.required = required;
+      }
+      if (def.unknownKeys === 'strict') {
+        jsonSchema.additionalProperties = false;
+      }
+      return jsonSchema;
+    }
+    case 'ZodRecord':
+      return { type: 'object', additionalProperties: toJsonSchema(def.valueType) };
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      return { anyOf: [...def.options].map(toJsonSchema) };
+    case 'ZodIntersection':
+      return { allOf: [toJsonSchema(def.left), toJsonSchema(def.right)] };
+    case 'ZodOptional':
+      return toJsonSchema(def.innerType);
+    case 'ZodNullable':
+      return { anyOf: [toJsonSchema(def.innerType), { type: 'null' }] };
+    case 'ZodDefault':
+      return { ...toJsonSchema(def.innerType), default: def.defaultValue() };
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return toJsonSchema(def.innerType);
+    case 'ZodBranded':
+      return toJsonSchema(def.type);
+    case 'ZodEffects':
+      return toJsonSchema(def.schema);
+    case 'ZodPipeline':
+      return toJsonSchema(def.in);
+    default:
+      return {};
+  }
+}
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+function isZodObject(schema: z.ZodTypeAny): schema is z.AnyZodObject {
+  return (schema._def as { typeName?: string }).typeName === 'ZodObject';
+}
 
 class ZodAdapter implements ValidationAdapter {
   async validate<S extends IfInstalled<z.ZodType>>(schema: S, data: unknown) {
@@ -36,6 +188,18 @@ class ZodAdapter implements ValidationAdapter {
       issues: result.error.issues.map(({ message, path }) => ({ message, path })),
     } as const;
   }
+
+  toJsonSchema<S extends IfInstalled<z.ZodType>>(schema: S) {
+    return toJsonSchema(schema);
+  }
+
+  merge(base: IfInstalled<z.ZodType>, extension: IfInstalled<z.ZodType>): z.ZodTypeAny {
+    if (!isZodObject(base) || !isZodObject(extension)) {
+      throw new Error('Only object schemas can be merged');
+    }
+
+    return base.extend(extension.shape);
+  }
 }
 
 export function zodAdapter() {
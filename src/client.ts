@@ -0,0 +1,99 @@
+import type { ValidationIssue } from './adapters/types';
+import { httpMethods } from './constants';
+import type { ValidationSegment } from './errors';
+import { type RequestOptions, createRequest, toClientResult } from './request';
+import type { HttpMethod, InferRouteInput, InferRouteOutput, RouteInput } from './types';
+
+/**
+ * The route modules of an app keyed by their path, e.g. `{ '/items/[id]': typeof import('./app/items/[id]/route') }`
+ */
+export type ClientRoutes = Record<string, Partial<Record<HttpMethod, unknown>>>;
+
+/**
+ * An error response of a route: a validation error, or any other error with its message and details
+ */
+export type ClientError =
+  | { type: 'validation'; status: number; message: string; segment: ValidationSegment; errors: ValidationIssue[] }
+  | { type: 'http'; status: number; message: string; details?: unknown };
+
+/**
+ * The result of a request, with either the output of the route or the error it responded with
+ */
+export type ClientResult<TOutput> =
+  | { data: TOutput; error: undefined; response: Response }
+  | { data: undefined; error: ClientError; response: Response };
+
+// Segments that accept an empty object (e.g. without a schema or with only optional keys) are optional
+type InputOptions<TInput extends RouteInput> = {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  [K in keyof TInput as {} extends TInput[K] ? never : K]: TInput[K];
+} & {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  [K in keyof TInput as {} extends TInput[K] ? K : never]?: TInput[K];
+};
+
+export type ClientRequestOptions<TInput extends RouteInput> = InputOptions<TInput> &
+  Omit<RequestInit, 'method' | 'body'>;
+
+// The route handlers created by the builder carry the types of their input
+type RouteHandlerOf<
+  TRoutes extends ClientRoutes,
+  TPath extends keyof TRoutes,
+  TMethod extends HttpMethod,
+> = TRoutes[TPath][TMethod] extends infer THandler ? ('__input' extends keyof THandler ? THandler : never) : never;
+
+type PathsWithMethod<TRoutes extends ClientRoutes, TMethod extends HttpMethod> = {
+  [P in keyof TRoutes & string]: [RouteHandlerOf<TRoutes, P, TMethod>] extends [never] ? never : P;
+}[keyof TRoutes & string];
+
+type RequestArgs<TInput extends RouteInput> =
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  {} extends InputOptions<TInput> ? [options?: ClientRequestOptions<TInput>] : [options: ClientRequestOptions<TInput>];
+
+/**
+ * A client with a function per method, typed from the route modules of the app
+ */
+export type SafeRouteClient<TRoutes extends ClientRoutes> = {
+  [M in HttpMethod]: <P extends PathsWithMethod<TRoutes, M>>(
+    path: P,
+    ...args: RequestArgs<InferRouteInput<RouteHandlerOf<TRoutes, P, M>>>
+  ) => Promise<ClientResult<InferRouteOutput<RouteHandlerOf<TRoutes, P, M>>>>;
+};
+
+export type ClientOptions = {
+  /**
+   * The URL the paths of the routes are relative to, e.g. `https://example.com/api`
+   */
+  baseUrl?: string;
+  /**
+   * The fetch implementation used to send the requests, e.g. to call handlers in tests
+   */
+  fetch?: (request: Request) => Promise<Response>;
+  /**
+   * Headers sent with every request
+   */
+  headers?: HeadersInit;
+};
+
+/**
+ * Create a client to call the routes of an app with typed input and output
+ * @param options - The base URL, fetch implementation and headers of the client
+ * @returns A client with a function per method, e.g. `client.GET('/items/[id]', { params: { id } })`
+ */
+export function createClient<TRoutes extends ClientRoutes>(options: ClientOptions = {}): SafeRouteClient<TRoutes> {
+  const { baseUrl = '', fetch: fetchFn = (request) => fetch(request), headers: defaultHeaders } = options;
+
+  const request = async (method: HttpMethod, path: string, requestOptions?: RequestOptions) => {
+    const url = new URL(`${baseUrl.replace(/\/$/, '')}${path}`, globalThis.location?.origin ?? 'http://localhost');
+    const response = await fetchFn(createRequest(method, url, requestOptions, defaultHeaders));
+
+    return toClientResult(response);
+  };
+
+  return Object.fromEntries(
+    httpMethods.map((method) => [
+      method,
+      (path: string, requestOptions?: RequestOptions) => request(method, path, requestOptions),
+    ]),
+  ) as unknown as SafeRouteClient<TRoutes>;
+}
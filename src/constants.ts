@@ -0,0 +1,9 @@
+import type { HttpMethod } from './types';
+
+export const httpMethods: HttpMethod[] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+export const routeDefinitionSymbol = Symbol.for('next-safe-route.routeDefinition');
+
+// Only known to the modules of the library, so that the middlewares of a route can't be replaced from outside of the
+// testing helpers
+export const overrideMiddlewaresSymbol = Symbol('next-safe-route.overrideMiddlewares');
@@ -0,0 +1,143 @@
+import { HttpMethod } from './types';
+
+export type CorsOptions = {
+  /**
+   * The origins allowed to call the route: `*` for any origin, a list of origins such as `https://example.com`, or a
+   * function deciding for each origin
+   */
+  origin: string | string[] | ((origin: string) => boolean | Promise<boolean>);
+  /**
+   * Whether the browser may send cookies and credentials with the requests. Any origin allowed with `*` is then
+   * echoed back, as browsers reject `*` for requests with credentials.
+   */
+  credentials?: boolean;
+  /**
+   * The headers the browser may send, defaults to the headers requested by the preflight request
+   */
+  allowedHeaders?: string[];
+  /**
+   * The methods the browser may use, defaults to the methods of the route group, the method in the metadata of the
+   * route, or all methods
+   */
+  allowedMethods?: HttpMethod[];
+  /**
+   * The response headers the browser may expose to the client, besides the CORS-safelisted ones
+   */
+  exposedHeaders?: string[];
+  /**
+   * How long in seconds the browser may cache the result of a preflight request
+   */
+  maxAge?: number;
+};
+
+/**
+ * Get the value of the Access-Control-Allow-Origin header for a request
+ * @param request - The incoming request
+ * @param options - The CORS options of the route
+ * @returns The allowed origin, or undefined if the request is not a CORS request or its origin is not allowed
+ */
+async function getAllowedOrigin(request: Request, options: CorsOptions) {
+  const origin = request.headers.get('origin');
+  if (!origin) {
+    return undefined;
+  }
+
+  if (options.origin === '*') {
+    return options.credentials ? origin : '*';
+  }
+
+  const isAllowed =
+    typeof options.origin === 'function'
+      ? await options.origin(origin)
+      : ([] as string[]).concat(options.origin).includes(origin);
+
+  return isAllowed ? origin : undefined;
+}
+
+/**
+ * Append a value to the Vary header, keeping the values already set
+ * @param headers - The headers of the response
+ * @param value - The name of the request header the response varies on
+ */
+function appendVary(headers: Headers, value: string) {
+  const vary = headers.get('vary');
+  if (!vary) {
+    headers.set('vary', value);
+    return;
+  }
+
+  const values = vary.toLowerCase().split(/\s*,\s*/);
+  if (!values.includes('*') && !values.includes(value.toLowerCase())) {
+    headers.set('vary', `${vary}, ${value}`);
+  }
+}
+
+/**
+ * Set the headers common to preflight and actual responses
+ * @param headers - The headers of the response
+ * @param allowedOrigin - The allowed origin, if any
+ * @param options - The CORS options of the route
+ */
+function setOriginHeaders(headers: Headers, allowedOrigin: string | undefined, options: CorsOptions) {
+  // Responses depend on the origin unless every origin gets the same `*`
+  if (allowedOrigin !== '*') {
+    appendVary(headers, 'Origin');
+  }
+  if (!allowedOrigin) {
+    return;
+  }
+
+  headers.set('access-control-allow-origin', allowedOrigin);
+  if (options.credentials) {
+    headers.set('access-control-allow-credentials', 'true');
+  }
+}
+
+/**
+ * Add the CORS headers to a response
+ * @param response - The response of the route, which may have immutable headers
+ * @param request - The incoming request
+ * @param options - The CORS options of the route
+ * @returns A copy of the response with the CORS headers
+ */
+export async function withCorsHeaders(response: Response, request: Request, options: CorsOptions) {
+  const allowedOrigin = await getAllowedOrigin(request, options);
+  const headers = new Headers(response.headers);
+  setOriginHeaders(headers, allowedOrigin, options);
+  if (allowedOrigin && options.exposedHeaders && options.exposedHeaders.length > 0) {
+    headers.set('access-control-expose-headers', options.exposedHeaders.join(', '));
+  }
+
+  return new Response(response.body, { status: response.status, statusText: response.statusText, headers });
+}
+
+/**
+ * Respond to a preflight request
+ * @param request - The preflight request
+ * @param options - The CORS options of the route
+ * @param methods - The methods of the route, used when the options don't restrict them
+ * @returns A 204 response with the CORS headers, without any of them if the origin is not allowed
+ */
+export async function createPreflightResponse(request: Request, options: CorsOptions, methods: HttpMethod[]) {
+  const allowedOrigin = await getAllowedOrigin(request, options);
+  const headers = new Headers();
+  setOriginHeaders(headers, allowedOrigin, options);
+
+  if (allowedOrigin) {
+    headers.set('access-control-allow-methods', (options.allowedMethods ?? methods).join(', '));
+
+    // Echo the requested headers back when the allowed headers are not restricted
+    const allowedHeaders = options.allowedHeaders?.join(', ') ?? request.headers.get('access-control-request-headers');
+    if (!options.allowedHeaders) {
+      appendVary(headers, 'Access-Control-Request-Headers');
+    }
+    if (allowedHeaders) {
+      headers.set('access-control-allow-headers', allowedHeaders);
+    }
+    if (options.maxAge !== undefined) {
+      headers.set('access-control-max-age', String(options.maxAge));
+    }
+  }
+
+  return new Response(null, { status: 204, headers });
+}
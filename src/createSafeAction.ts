@@ -0,0 +1,14 @@
+import { ValidationAdapter } from './adapters/types';
+import { SafeActionBuilder } from './safeActionBuilder';
+import { ActionServerErrorFn } from './types';
+
+export function createSafeAction(params?: {
+  handleServerError?: ActionServerErrorFn;
+  validationAdapter?: ValidationAdapter;
+}) {
+  return new SafeActionBuilder({
+    handleServerError: params?.handleServerError,
+    validationAdapter: params?.validationAdapter,
+    contextType: {},
+  });
+}
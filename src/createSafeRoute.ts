@@ -1,9 +1,26 @@
+import { ValidationAdapter } from './adapters/types';
+import { RouteHooks, Tracer, createTracingHooks } from './hooks';
 import { RouteHandlerBuilder } from './routeHandlerBuilder';
-import { HandlerServerErrorFn } from './types';
+import { FormatValidationErrorFn, HandlerServerErrorFn, ResponseValidationMode } from './types';
+
+export function createSafeRoute(params?: {
+  handleServerError?: HandlerServerErrorFn;
+  formatValidationError?: FormatValidationErrorFn;
+  responseValidation?: ResponseValidationMode;
+  validationAdapter?: ValidationAdapter;
+  hooks?: RouteHooks;
+  tracer?: Tracer;
+}) {
+  const hooks = [params?.hooks, params?.tracer && createTracingHooks(params.tracer)].filter(
+    (routeHooks): routeHooks is RouteHooks => routeHooks !== undefined,
+  );
 
-export function createSafeRoute(params?: { handleServerError?: HandlerServerErrorFn }) {
   return new RouteHandlerBuilder({
-    handleServerError: params?.handleServerError,
+    serverErrorHandlers: params?.handleServerError ? [params.handleServerError] : [],
+    formatValidationError: params?.formatValidationError,
+    responseValidation: params?.responseValidation,
+    validationAdapter: params?.validationAdapter,
+    hooks,
     contextType: {},
   });
 }
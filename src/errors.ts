@@ -0,0 +1,97 @@
+import { ValidationIssue } from './adapters/types';
+
+export type ValidationSegment = 'params' | 'query' | 'body' | 'headers' | 'cookies';
+
+/**
+ * Error thrown when a segment of the request fails validation against its schema
+ */
+export class SafeRouteValidationError extends Error {
+  readonly segment: ValidationSegment;
+  readonly issues: ValidationIssue[];
+
+  constructor(segment: ValidationSegment, issues: ValidationIssue[]) {
+    super(`Invalid ${segment}`);
+    this.name = 'SafeRouteValidationError';
+    this.segment = segment;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when the body returned by a handler does not match the response schema for its status code
+ */
+export class ResponseValidationError extends Error {
+  readonly status: number;
+  readonly issues: ValidationIssue[];
+
+  constructor(status: number, issues: ValidationIssue[]) {
+    super(`Invalid response for status ${status}`);
+    this.name = 'ResponseValidationError';
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Default formatter for validation errors
+ * @param error - The validation error
+ * @returns A 400 JSON response describing the failing segment and its issues
+ */
+export function defaultFormatValidationError(error: SafeRouteValidationError): Response {
+  return Response.json({ message: error.message, segment: error.segment, errors: error.issues }, { status: 400 });
+}
+
+export type HttpErrorOptions = {
+  /**
+   * Additional information about the error, included in the response body
+   */
+  details?: unknown;
+  /**
+   * Headers to set on the response, e.g. `WWW-Authenticate` or `Retry-After`
+   */
+  headers?: HeadersInit;
+};
+
+/**
+ * Error that can be thrown from handlers and middlewares to respond with a specific HTTP status code
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly details?: unknown;
+  readonly headers?: HeadersInit;
+
+  constructor(status: number, message: string, options?: HttpErrorOptions) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.details = options?.details;
+    this.headers = options?.headers;
+  }
+
+  /**
+   * Convert the error into a JSON response with its status code and headers
+   * @returns The response for the error
+   */
+  toResponse(): Response {
+    const body =
+      this.details === undefined ? { message: this.message } : { message: this.message, details: this.details };
+    return Response.json(body, { status: this.status, headers: this.headers });
+  }
+}
+
+function createHttpErrorHelper(status: number, defaultMessage: string) {
+  return (details?: unknown, options?: { message?: string; headers?: HeadersInit }) =>
+    new HttpError(status, options?.message ?? defaultMessage, { details, headers: options?.headers });
+}
+
+export const badRequest = createHttpErrorHelper(400, 'Bad request');
+export const unauthorized = createHttpErrorHelper(401, 'Unauthorized');
+export const forbidden = createHttpErrorHelper(403, 'Forbidden');
+export const notFound = createHttpErrorHelper(404, 'Not found');
+export const methodNotAllowed = createHttpErrorHelper(405, 'Method not allowed');
+export const conflict = createHttpErrorHelper(409, 'Conflict');
+export const gone = createHttpErrorHelper(410, 'Gone');
+export const unsupportedMediaType = createHttpErrorHelper(415, 'Unsupported content type');
+export const unprocessableEntity = createHttpErrorHelper(422, 'Unprocessable entity');
+export const tooManyRequests = createHttpErrorHelper(429, 'Too many requests');
+export const gatewayTimeout = createHttpErrorHelper(504, 'Gateway timeout');
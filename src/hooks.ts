@@ -0,0 +1,142 @@
+import type { SafeRouteValidationError, ValidationSegment } from './errors';
+import type { ErrorCategory, MiddlewarePhase, RouteMeta } from './types';
+
+/**
+ * The request a hook is called for, along with the metadata of its route
+ */
+export type RouteEvent = { request: Request; route: RouteMeta };
+
+/**
+ * The time in milliseconds spent in each step of a request
+ */
+export type RouteTimings = {
+  parseBody?: number;
+  validation: Partial<Record<ValidationSegment, number>>;
+  middlewares: Array<{ name: string; phase: MiddlewarePhase; duration: number }>;
+  handler?: number;
+  total: number;
+};
+
+export type RouteMiddlewareEvent = RouteEvent & {
+  name: string;
+  phase: MiddlewarePhase;
+  index: number;
+  /** The time spent in the middleware, including the rest of the chain when it calls `next` */
+  duration: number;
+  error?: unknown;
+};
+
+export type RouteValidationErrorEvent = RouteEvent & {
+  error: SafeRouteValidationError;
+  segment: ValidationSegment;
+  duration: number;
+};
+
+export type RouteErrorEvent = RouteEvent & { error: Error; category: ErrorCategory; duration: number };
+
+export type RouteResponseEvent = RouteEvent & { response: Response; duration: number; timings: RouteTimings };
+
+/**
+ * Hooks called during the lifecycle of a request, e.g. for logging, metrics or tracing. Errors thrown by hooks are
+ * logged and never affect the response.
+ */
+export type RouteHooks = {
+  /** Called when a request is received, before anything else */
+  onRequest?: (event: RouteEvent) => void | Promise<void>;
+  /** Called after each middleware */
+  onMiddleware?: (event: RouteMiddlewareEvent) => void | Promise<void>;
+  /** Called when a segment of the request fails parsing or validation */
+  onValidationError?: (event: RouteValidationErrorEvent) => void | Promise<void>;
+  /** Called for every error caught by the route handler, before it's converted into a response */
+  onError?: (event: RouteErrorEvent) => void | Promise<void>;
+  /** Called with the response sent for the request, whether it succeeded or failed */
+  onResponse?: (event: RouteResponseEvent) => void | Promise<void>;
+};
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of the OpenTelemetry `Span` interface used to trace requests
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of the OpenTelemetry `Tracer` interface used to trace requests, e.g. `trace.getTracer('api')`
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: SpanAttributes }): Span;
+}
+
+// Values of the OpenTelemetry `SpanKind` and `SpanStatusCode` enums
+const SPAN_KIND_SERVER = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Create hooks that trace each request in a span, following the OpenTelemetry semantic conventions for HTTP servers
+ * @param tracer - The tracer that starts the spans
+ * @returns The hooks that start, annotate and end the spans
+ */
+export function createTracingHooks(tracer: Tracer): RouteHooks {
+  const spans = new WeakMap<Request, Span>();
+
+  return {
+    onRequest: ({ request, route }) => {
+      const { pathname } = new URL(request.url);
+      const span = tracer.startSpan(`${request.method} ${route.path ?? pathname}`, {
+        kind: SPAN_KIND_SERVER,
+        attributes: {
+          'http.request.method': request.method,
+          'url.path': pathname,
+          ...(route.path && { 'http.route': route.path }),
+          ...(route.operationId && { 'next_safe_route.operation_id': route.operationId }),
+        },
+      });
+      spans.set(request, span);
+    },
+    onMiddleware: ({ request, name, phase, index, duration, error }) => {
+      spans.get(request)?.addEvent('middleware', {
+        'next_safe_route.middleware.name': name,
+        'next_safe_route.middleware.phase': phase,
+        'next_safe_route.middleware.index': index,
+        'next_safe_route.middleware.duration_ms': duration,
+        'next_safe_route.middleware.failed': error !== undefined,
+      });
+    },
+    onValidationError: ({ request, segment, error }) => {
+      spans.get(request)?.addEvent('validation_error', {
+        'next_safe_route.validation.segment': segment,
+        'next_safe_route.validation.issue_count': error.issues.length,
+      });
+    },
+    onError: ({ request, error, category }) => {
+      const span = spans.get(request);
+      span?.setAttribute('next_safe_route.error.category', category);
+      if (category === 'server') {
+        span?.recordException(error);
+        span?.setStatus({ code: SPAN_STATUS_ERROR, message: error.message });
+      }
+    },
+    onResponse: ({ request, response, timings }) => {
+      const span = spans.get(request);
+      if (!span) {
+        return;
+      }
+
+      span.setAttribute('http.response.status_code', response.status);
+      if (timings.handler !== undefined) {
+        span.setAttribute('next_safe_route.handler.duration_ms', timings.handler);
+      }
+      if (response.status >= 500) {
+        span.setStatus({ code: SPAN_STATUS_ERROR });
+      }
+      span.end();
+      spans.delete(request);
+    },
+  };
+}
@@ -0,0 +1,287 @@
+import { badRequest, conflict, unprocessableEntity } from './errors';
+
+/**
+ * A response stored to be replayed, with its body encoded in base64
+ */
+export type StoredResponse = {
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: string;
+};
+
+/**
+ * The state of an idempotency key: a request being handled, or the response to replay
+ */
+export type IdempotencyRecord =
+  | { status: 'in-flight'; fingerprint: string }
+  | { status: 'completed'; fingerprint: string; response: StoredResponse };
+
+/**
+ * Where the idempotency keys and their responses are kept. Stores backed by a shared database, such as Redis, let
+ * every instance of the app replay the same responses.
+ */
+export interface IdempotencyStore {
+  /**
+   * Get the record of a key
+   * @param key - The idempotency key, prefixed with the scope of the client and the method and URL of the request
+   * @returns The record, or undefined if the key is unknown or expired
+   */
+  get(key: string): Promise<IdempotencyRecord | undefined>;
+  /**
+   * Store the record of a key only if it has none, atomically, e.g. with `SET NX` for Redis
+   * @param key - The idempotency key, prefixed with the scope of the client and the method and URL of the request
+   * @param record - The record to store
+   * @param ttl - How long in milliseconds the record must be kept
+   * @returns Whether the record was stored
+   */
+  create(key: string, record: IdempotencyRecord, ttl: number): Promise<boolean>;
+  /**
+   * Store the record of a key, replacing any existing record
+   * @param key - The idempotency key, prefixed with the scope of the client and the method and URL of the request
+   * @param record - The record to store
+   * @param ttl - How long in milliseconds the record must be kept
+   */
+  set(key: string, record: IdempotencyRecord, ttl: number): Promise<void>;
+  /**
+   * Delete the record of a key, so that the request can be retried
+   * @param key - The idempotency key, prefixed with the scope of the client and the method and URL of the request
+   */
+  delete(key: string): Promise<void>;
+}
+
+export type IdempotencyOptions<TArgs> = {
+  /**
+   * What the idempotency keys are scoped to, e.g. the user of an authenticated route, so that clients never get the
+   * responses of the keys of other clients. It receives the validated input and the context of the middlewares.
+   */
+  scope: (args: TArgs) => string | Promise<string>;
+  /**
+   * Where the idempotency keys and their responses are kept, defaults to a store in memory
+   */
+  store?: IdempotencyStore;
+  /**
+   * How long in milliseconds responses are replayed, defaults to 24 hours
+   */
+  ttl?: number;
+  /**
+   * How long in milliseconds a request is considered in flight, after which a retry is handled again in case the
+   * first request never completed, defaults to 1 minute
+   */
+  lockTimeout?: number;
+  /**
+   * Whether requests without an idempotency key are rejected with a 400, rather than handled without idempotency
+   */
+  required?: boolean;
+  /**
+   * The header of the idempotency key, defaults to `Idempotency-Key`
+   */
+  header?: string;
+  /**
+   * Prepended to the keys, to separate the routes sharing a store, defaults to `idempotency`
+   */
+  prefix?: string;
+};
+
+/**
+ * A store keeping the idempotency keys and their responses in the memory of the process, e.g. for tests or apps with a
+ * single instance. Expired keys are removed periodically.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private entries = new Map<string, { record: IdempotencyRecord; expiresAt: number }>();
+  private nextSweep = 0;
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    return entry.record;
+  }
+
+  async create(key: string, record: IdempotencyRecord, ttl: number) {
+    if (await this.get(key)) {
+      return false;
+    }
+
+    await this.set(key, record, ttl);
+    return true;
+  }
+
+  async set(key: string, record: IdempotencyRecord, ttl: number) {
+    const now = Date.now();
+    if (now >= this.nextSweep) {
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(entryKey);
+        }
+      }
+      this.nextSweep = now + 60_000;
+    }
+
+    this.entries.set(key, { record, expiresAt: now + ttl });
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Get the SHA-256 hash of some data
+ * @param data - The data to hash
+ * @returns The hash, in hexadecimal
+ */
+async function sha256(data: BufferSource) {
+  const hash = await crypto.subtle.digest('SHA-256', data);
+
+  return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Serialize a value to JSON with the keys of objects sorted, so that equal values always have the same serialization.
+ * Files and binary data are serialized as the hash of their content.
+ * @param value - The value to serialize
+ * @returns The JSON serialization of the value
+ */
+async function stableStringify(value: unknown): Promise<string> {
+  if (Array.isArray(value)) {
+    const items = await Promise.all(value.map((item) => stableStringify(item)));
+    return `[${items.join(',')}]`;
+  }
+
+  if (value instanceof Blob) {
+    const name = value instanceof File ? value.name : undefined;
+    return stableStringify({ name, type: value.type, sha256: await sha256(await value.arrayBuffer()) });
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return stableStringify({ sha256: await sha256(value) });
+  }
+
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const members = await Promise.all(
+      entries.map(async ([key, item]) => `${JSON.stringify(key)}:${await stableStringify(item)}`),
+    );
+    return `{${members.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/**
+ * Get the fingerprint of a request body, to detect idempotency keys reused with a different body
+ * @param body - The validated body
+ * @returns The SHA-256 hash of the body, in hexadecimal
+ */
+async function getFingerprint(body: unknown) {
+  return sha256(new TextEncoder().encode(await stableStringify(body)));
+}
+
+function toBase64(buffer: ArrayBuffer) {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary);
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Replay a stored response
+ * @param stored - The stored response
+ * @returns The response, with an `Idempotent-Replayed` header
+ */
+function toReplayedResponse(stored: StoredResponse) {
+  const headers = new Headers(stored.headers);
+  headers.set('Idempotent-Replayed', 'true');
+  const body = stored.body.length > 0 ? fromBase64(stored.body) : null;
+
+  return new Response(body, { status: stored.status, statusText: stored.statusText, headers });
+}
+
+/**
+ * Handle a request at most once per idempotency key, replaying the response of the first request on retries
+ * @param options - The idempotency options of the route
+ * @param store - The store keeping the idempotency keys
+ * @param request - The incoming request
+ * @param args - The validated input and the context, whose body is fingerprinted to detect keys reused with a
+ * different body
+ * @param handle - Handle the request and return its response
+ * @returns The response of the request, or the response replayed for its key
+ */
+export async function handleIdempotently<TArgs extends { body: unknown }>(
+  options: IdempotencyOptions<TArgs>,
+  store: IdempotencyStore,
+  request: Request,
+  args: TArgs,
+  handle: () => Promise<Response>,
+): Promise<Response> {
+  const {
+    ttl = 24 * 60 * 60 * 1000,
+    lockTimeout = 60_000,
+    header = 'Idempotency-Key',
+    prefix = 'idempotency',
+  } = options;
+  const idempotencyKey = request.headers.get(header);
+  if (!idempotencyKey) {
+    if (options.required) {
+      throw badRequest(undefined, { message: `The ${header} header is required` });
+    }
+
+    return handle();
+  }
+
+  const { pathname, search } = new URL(request.url);
+  const scope = await options.scope(args);
+  const key = `${prefix}:${scope}:${request.method} ${pathname}${search}:${idempotencyKey}`;
+  const fingerprint = await getFingerprint(args.body);
+
+  // Lock the key while the request is handled, unless another request holds it or already completed
+  if (!(await store.create(key, { status: 'in-flight', fingerprint }, lockTimeout))) {
+    const record = await store.get(key);
+    if (record && record.fingerprint !== fingerprint) {
+      throw unprocessableEntity(undefined, { message: `The ${header} was used with a different request body` });
+    }
+    if (record?.status === 'completed') {
+      return toReplayedResponse(record.response);
+    }
+    if (record || !(await store.create(key, { status: 'in-flight', fingerprint }, lockTimeout))) {
+      throw conflict(undefined, { message: `A request with the same ${header} is in progress` });
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await handle();
+  } catch (error) {
+    await store.delete(key);
+    throw error;
+  }
+
+  // Server errors may be temporary, so they are not replayed and the request can be retried
+  if (response.status >= 500) {
+    await store.delete(key);
+    return response;
+  }
+
+  const stored: StoredResponse = {
+    status: response.status,
+    statusText: response.statusText,
+    // Cookies belong to the client that received them, so they are never replayed
+    headers: [...response.headers.entries()].filter(([name]) => name !== 'set-cookie'),
+    body: toBase64(await response.clone().arrayBuffer()),
+  };
+  await store.set(key, { status: 'completed', fingerprint, response: stored }, ttl);
+
+  return response;
+}
@@ -1,2 +1,109 @@
+export {
+  type Infer,
+  type InferIn,
+  type JsonSchema,
+  type MergedSchema,
+  type Schema,
+  type ValidateOptions,
+  type ValidationAdapter,
+  type ValidationIssue,
+} from './adapters/types';
+export { type CorsOptions } from './cors';
+export { createSafeAction } from './createSafeAction';
 export { createSafeRoute } from './createSafeRoute';
-export { type HandlerFunction, type RouteHandlerBuilderConfig } from './types';
+export {
+  HttpError,
+  type HttpErrorOptions,
+  ResponseValidationError,
+  SafeRouteValidationError,
+  type ValidationSegment,
+  badRequest,
+  conflict,
+  defaultFormatValidationError,
+  forbidden,
+  gatewayTimeout,
+  gone,
+  methodNotAllowed,
+  notFound,
+  tooManyRequests,
+  unauthorized,
+  unprocessableEntity,
+  unsupportedMediaType,
+} from './errors';
+export {
+  type RouteErrorEvent,
+  type RouteEvent,
+  type RouteHooks,
+  type RouteMiddlewareEvent,
+  type RouteResponseEvent,
+  type RouteTimings,
+  type RouteValidationErrorEvent,
+  type Span,
+  type SpanAttributes,
+  type Tracer,
+  createTracingHooks,
+} from './hooks';
+export {
+  type IdempotencyOptions,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+  MemoryIdempotencyStore,
+  type StoredResponse,
+} from './idempotency';
+export {
+  type OpenApiDocument,
+  type OpenApiDocumentOptions,
+  type OpenApiHeader,
+  type OpenApiOperation,
+  type OpenApiParameter,
+  OpenApiRegistry,
+  type OpenApiResponse,
+  type RouteModule,
+  generateOpenApiDocument,
+} from './openapi';
+export { type QueryParser } from './parseQuery';
+export {
+  MemoryRateLimitStore,
+  type RateLimitAlgorithm,
+  type RateLimitKey,
+  type RateLimitOptions,
+  type RateLimitResult,
+  type RateLimitState,
+  type RateLimitStore,
+} from './rateLimit';
+export { type HandlerResult, respond } from './respond';
+export {
+  type ActionHandlerFunction,
+  type ActionMiddlewareFunction,
+  type ActionMiddlewareReturnType,
+  type ActionNextFn,
+  type ActionResult,
+  type ActionServerErrorFn,
+  type BeforeParsingMiddlewareFunction,
+  type ErrorCategory,
+  type FormatValidationErrorFn,
+  type HandlerFunction,
+  type HandlerOutput,
+  type HandlerReturnType,
+  type HandlerServerErrorFn,
+  type HttpMethod,
+  type InferRouteInput,
+  type InferRouteOutput,
+  type MethodHandlers,
+  type MethodRouteHandlers,
+  type MiddlewareContext,
+  type MiddlewareFunction,
+  type MiddlewareNextFn,
+  type MiddlewarePhase,
+  type MiddlewareReturnType,
+  type ResponseValidationMode,
+  type RouteContext,
+  type RouteDefinition,
+  type RouteHandlerBuilderConfig,
+  type RouteInput,
+  type RouteMeta,
+  type RouteParams,
+  type SafeAction,
+  type SafeRouteHandler,
+  type TypedResponse,
+} from './types';
@@ -0,0 +1,349 @@
+import { JsonSchema, Schema } from './adapters/types';
+import { httpMethods, routeDefinitionSymbol } from './constants';
+import { HttpMethod, OriginalRouteHandler, RouteDefinition } from './types';
+
+const statusDescriptions: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  202: 'Accepted',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  410: 'Gone',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  504: 'Gateway Timeout',
+};
+
+// The shapes of the error responses emitted by the route handlers
+const errorSchemas: Record<string, JsonSchema> = {
+  ValidationError: {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      segment: { type: 'string', enum: ['params', 'query', 'body', 'headers', 'cookies'] },
+      errors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            path: { type: 'array', items: { type: ['string', 'integer'] } },
+          },
+          required: ['message'],
+        },
+      },
+    },
+    required: ['message', 'segment', 'errors'],
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      message: { type: 'string' },
+      details: {},
+    },
+    required: ['message'],
+  },
+};
+
+export type OpenApiParameter = {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+};
+
+export type OpenApiHeader = {
+  description?: string;
+  schema: JsonSchema;
+};
+
+export type OpenApiResponse = {
+  description: string;
+  headers?: Record<string, OpenApiHeader>;
+  content?: Record<string, { schema: JsonSchema }>;
+};
+
+export type OpenApiOperation = {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, OpenApiResponse>;
+};
+
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: Array<{ url: string; description?: string }>;
+  paths: Record<string, Partial<Record<Lowercase<HttpMethod>, OpenApiOperation>>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+export type OpenApiDocumentOptions = Pick<OpenApiDocument, 'info' | 'servers'>;
+
+/**
+ * The route handlers of a route module, e.g. `import * as route from './app/items/route'`
+ */
+export type RouteModule = Partial<Record<HttpMethod, OriginalRouteHandler>>;
+
+/**
+ * Get the definition of a route handler created by the builder
+ * @param handler - The route handler
+ * @returns The definition of the route, or undefined if the handler was not created by the builder
+ */
+function getRouteDefinition(handler: unknown): RouteDefinition | undefined {
+  if (typeof handler !== 'function' || !(routeDefinitionSymbol in handler)) {
+    return undefined;
+  }
+
+  return handler[routeDefinitionSymbol] as RouteDefinition;
+}
+
+/**
+ * Convert a path with Next.js dynamic segments (`[id]`, `[...slug]`, `[[...slug]]`) to the OpenAPI notation
+ * @param path - The path of the route
+ * @returns The path with its dynamic segments as OpenAPI path parameters
+ */
+function toOpenApiPath(path: string) {
+  return path.replace(/\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}/g, '{$1}');
+}
+
+// The headers of rate limited responses, following the IETF draft for RateLimit header fields
+const rateLimitHeaders: Record<string, OpenApiHeader> = {
+  'RateLimit-Limit': { description: 'The number of requests allowed per window', schema: { type: 'integer' } },
+  'RateLimit-Remaining': { description: 'The number of requests left in the window', schema: { type: 'integer' } },
+  'RateLimit-Reset': { description: 'The number of seconds until the limit is reset', schema: { type: 'integer' } },
+  'RateLimit-Policy': { description: 'The limit and the window in seconds', schema: { type: 'string' } },
+  'Retry-After': {
+    description: 'The number of seconds until the next request is allowed',
+    schema: { type: 'integer' },
+  },
+};
+
+/**
+ * A collection of routes to document in an OpenAPI document
+ */
+export class OpenApiRegistry {
+  private routes: Array<{ method: HttpMethod; definition: RouteDefinition }> = [];
+
+  /**
+   * Register route handlers or route modules. Route modules are documented with the method of each export, while
+   * route handlers need a method in their metadata. Handlers not created by the builder are ignored.
+   * @param routes - The route handlers or route modules to register
+   * @returns The registry
+   */
+  register(...routes: Array<OriginalRouteHandler | RouteModule>): this {
+    for (const route of routes) {
+      if (typeof route === 'function') {
+        const definition = getRouteDefinition(route);
+        if (!definition) {
+          continue;
+        }
+        if (!definition.meta.method) {
+          throw new Error('Route handlers registered on their own need a method, set it with .meta({ method })');
+        }
+
+        this.routes.push({ method: definition.meta.method, definition });
+        continue;
+      }
+
+      for (const method of httpMethods) {
+        const definition = getRouteDefinition(route[method]);
+        if (definition) {
+          this.routes.push({ method, definition });
+        }
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Get the registered routes
+   * @returns The method and definition of each registered route
+   */
+  getRoutes() {
+    return [...this.routes];
+  }
+}
+
+/**
+ * Convert the properties of an object schema into OpenAPI parameters
+ * @param schema - The JSON Schema of the segment
+ * @param location - Where the parameters are sent
+ * @returns The parameters, one per property
+ */
+function toParameters(schema: JsonSchema, location: OpenApiParameter['in']): OpenApiParameter[] {
+  return Object.entries(schema.properties ?? {}).map(([name, { description, ...propertySchema }]) => {
+    const parameter: OpenApiParameter = {
+      name,
+      in: location,
+      required: location === 'path' || (schema.required?.includes(name) ?? false),
+      schema: propertySchema,
+    };
+    if (description) {
+      parameter.description = description;
+    }
+
+    return parameter;
+  });
+}
+
+/**
+ * Create the OpenAPI operation of a route
+ * @param definition - The definition of the route
+ * @param path - The path of the route in the OpenAPI notation
+ * @returns The operation describing the route
+ */
+function createOperation(definition: RouteDefinition, path: string): OpenApiOperation {
+  const { meta, validationAdapter, responseSchemas } = definition;
+  const toJsonSchema = (schema: Schema) => validationAdapter.toJsonSchema?.(schema) ?? {};
+
+  const operation: OpenApiOperation = { responses: {} };
+  for (const key of ['operationId', 'summary', 'description', 'tags', 'deprecated'] as const) {
+    if (meta[key] !== undefined) {
+      Object.assign(operation, { [key]: meta[key] });
+    }
+  }
+
+  // Document the path params from the schema, or as strings from the path when the route has no params schema
+  const pathParameters = definition.paramsSchema
+    ? toParameters(toJsonSchema(definition.paramsSchema), 'path')
+    : [...path.matchAll(/\{([^}]+)\}/g)].map(([, name]) => ({
+        name: name!,
+        in: 'path' as const,
+        required: true,
+        schema: { type: 'string' },
+      }));
+  const parameters = [
+    ...pathParameters,
+    ...(definition.querySchema ? toParameters(toJsonSchema(definition.querySchema), 'query') : []),
+    ...(definition.headersSchema ? toParameters(toJsonSchema(definition.headersSchema), 'header') : []),
+    ...(definition.cookiesSchema ? toParameters(toJsonSchema(definition.cookiesSchema), 'cookie') : []),
+  ];
+  const idempotencyOptions = definition.idempotency?.options;
+  const idempotencyHeader = idempotencyOptions?.header ?? 'Idempotency-Key';
+  if (
+    idempotencyOptions &&
+    !parameters.some(
+      ({ name, in: location }) => location === 'header' && name.toLowerCase() === idempotencyHeader.toLowerCase(),
+    )
+  ) {
+    parameters.push({
+      name: idempotencyHeader,
+      in: 'header',
+      required: idempotencyOptions.required ?? false,
+      description: 'A unique key to safely retry the request, whose response is replayed',
+      schema: { type: 'string' },
+    });
+  }
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (definition.bodySchema) {
+    const schema = toJsonSchema(definition.bodySchema);
+    const contentTypes = definition.contentTypes ?? ['application/json'];
+    operation.requestBody = {
+      required: true,
+      content: Object.fromEntries(contentTypes.map((contentType) => [contentType, { schema }])),
+    };
+  }
+
+  // Document the responses of the handler, then the error responses the route handler emits itself
+  const responses: Record<string, OpenApiResponse> = {};
+  const withJson = (status: number, schema: JsonSchema): OpenApiResponse => ({
+    description: statusDescriptions[status] ?? 'Response',
+    content: { 'application/json': { schema } },
+  });
+
+  if (responseSchemas?.default) {
+    responses['200'] = withJson(200, toJsonSchema(responseSchemas.default));
+  }
+  for (const [status, schema] of Object.entries(responseSchemas?.statuses ?? {})) {
+    responses[status] = withJson(Number(status), toJsonSchema(schema));
+  }
+  if (!Object.keys(responses).some((status) => status.startsWith('2'))) {
+    responses['200'] = { description: statusDescriptions[200]! };
+  }
+
+  const validatesInput = [
+    definition.paramsSchema,
+    definition.querySchema,
+    definition.bodySchema,
+    definition.headersSchema,
+    definition.cookiesSchema,
+  ].some(Boolean);
+  // Requests without a required idempotency key are rejected with an error, besides the validation errors of the input
+  const badRequestSchemas = [
+    ...(validatesInput ? [{ $ref: '#/components/schemas/ValidationError' }] : []),
+    ...(idempotencyOptions?.required ? [{ $ref: '#/components/schemas/Error' }] : []),
+  ];
+  if (badRequestSchemas.length > 0) {
+    responses['400'] ??= withJson(
+      400,
+      badRequestSchemas.length > 1 ? { anyOf: badRequestSchemas } : badRequestSchemas[0]!,
+    );
+  }
+  if (idempotencyOptions) {
+    responses['409'] ??= withJson(409, { $ref: '#/components/schemas/Error' });
+    responses['422'] ??= withJson(422, { $ref: '#/components/schemas/Error' });
+  }
+  if (definition.contentTypes) {
+    responses['415'] ??= withJson(415, { $ref: '#/components/schemas/Error' });
+  }
+  if (definition.rateLimits && definition.rateLimits.length > 0) {
+    responses['429'] ??= { ...withJson(429, { $ref: '#/components/schemas/Error' }), headers: rateLimitHeaders };
+  }
+  responses['500'] ??= withJson(500, { $ref: '#/components/schemas/Error' });
+  if (definition.timeout !== undefined) {
+    responses['504'] ??= withJson(504, { $ref: '#/components/schemas/Error' });
+  }
+
+  operation.responses = responses;
+
+  return operation;
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from the routes of a registry
+ * @param registry - The registry with the routes to document
+ * @param options - The info and servers of the document
+ * @returns The OpenAPI document
+ */
+export function generateOpenApiDocument(registry: OpenApiRegistry, options: OpenApiDocumentOptions): OpenApiDocument {
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    ...options,
+    paths: {},
+    components: { schemas: { ...errorSchemas } },
+  };
+
+  for (const { method, definition } of registry.getRoutes()) {
+    if (!definition.meta.path) {
+      throw new Error(`Route ${method} has no path, set it with .meta({ path })`);
+    }
+
+    const path = toOpenApiPath(definition.meta.path);
+    const pathItem = (document.paths[path] ??= {});
+    const key = method.toLowerCase() as Lowercase<HttpMethod>;
+    if (pathItem[key]) {
+      throw new Error(`Route ${method} ${path} is registered more than once`);
+    }
+
+    pathItem[key] = createOperation(definition, path);
+  }
+
+  return document;
+}
@@ -0,0 +1,37 @@
+/**
+ * Parse the Cookie header of a request into an object
+ * @param request - The incoming request
+ * @returns The cookies by name, keeping the first value of repeated cookies
+ */
+export function parseCookies(request: Request) {
+  const cookies: Record<string, string> = {};
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return cookies;
+  }
+
+  for (const pair of header.split(';')) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex === -1) {
+      continue;
+    }
+
+    const name = pair.slice(0, separatorIndex).trim();
+    if (!name || name === '__proto__' || Object.hasOwn(cookies, name)) {
+      continue;
+    }
+
+    let value = pair.slice(separatorIndex + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+      value = value.slice(1, -1);
+    }
+
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+
+  return cookies;
+}
@@ -0,0 +1,144 @@
+/**
+ * How the query string is turned into the object validated against the query schema
+ * - `simple`: one value per key, keeping the last one for repeated keys
+ * - `arrays`: repeated keys become arrays of values
+ * - `nested`: like `arrays`, and keys with bracket or dot notation (`filter[status]`, `filter.status`, `tags[]`,
+ *   `items[0][name]`) become nested objects and arrays
+ * - A custom function that receives the search params and returns the query object
+ */
+export type QueryParser = 'simple' | 'arrays' | 'nested' | ((searchParams: URLSearchParams) => unknown);
+
+type QueryObject = Record<string, unknown> | unknown[];
+
+const forbiddenSegments = ['__proto__', 'constructor', 'prototype'];
+
+// Indices above this limit create object keys instead of array elements, to avoid allocating huge sparse arrays
+const arrayIndexLimit = 100;
+
+function isArrayIndex(segment: string) {
+  return segment === '' || (/^\d+$/.test(segment) && Number(segment) <= arrayIndexLimit);
+}
+
+/**
+ * Split a query key into its path segments, e.g. `filter[status]` and `filter.status` into `['filter', 'status']`
+ * @param key - The query key
+ * @returns The path segments, with an empty segment for `[]`
+ */
+function parseKey(key: string) {
+  const match = /^([^[.]+)(.*)$/.exec(key);
+  if (!match?.[1]) {
+    return [key];
+  }
+
+  const segments = [match[1]];
+  const pattern = /\[([^\]]*)\]|\.([^[.]+)/g;
+  let rest = match[2] ?? '';
+  let consumed = 0;
+
+  for (const segment of rest.matchAll(pattern)) {
+    if (segment.index !== consumed) {
+      break;
+    }
+
+    segments.push(segment[1] ?? segment[2] ?? '');
+    consumed += segment[0].length;
+  }
+
+  // Keep anything that isn't valid bracket or dot notation as part of the last segment
+  rest = rest.slice(consumed);
+  if (rest.length > 0) {
+    segments[segments.length - 1] += rest;
+  }
+
+  return segments;
+}
+
+function appendValue(target: QueryObject, key: string | number, value: unknown) {
+  const container = target as Record<string | number, unknown>;
+  const existing = container[key];
+
+  if (!Object.hasOwn(container, key)) {
+    container[key] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    container[key] = [existing, value];
+  }
+}
+
+/**
+ * Assign a value at a path of the query object. A key given both a value and nested keys, e.g. `a=1&a[b]=2`, keeps the
+ * value whatever the order of the keys.
+ * @param root - The query object
+ * @param path - The path segments of the query key
+ * @param value - The value of the query key
+ * @param containers - The objects and arrays created for nested keys, as opposed to arrays of repeated values
+ */
+function assignPath(root: Record<string, unknown>, path: string[], value: string, containers: WeakSet<object>) {
+  if (path.some((segment) => forbiddenSegments.includes(segment))) {
+    return;
+  }
+
+  let current: QueryObject = root;
+
+  for (const [index, segment] of path.entries()) {
+    const key =
+      Array.isArray(current) && isArrayIndex(segment) ? (segment === '' ? current.length : Number(segment)) : segment;
+    const nextSegment = path[index + 1];
+    const container = current as Record<string | number, unknown>;
+    const existing = Object.hasOwn(container, key) ? container[key] : undefined;
+    const isContainer = typeof existing === 'object' && existing !== null && containers.has(existing);
+
+    if (nextSegment === undefined) {
+      if (isContainer) {
+        container[key] = value;
+      } else {
+        appendValue(current, key, value);
+      }
+      return;
+    }
+
+    if (existing === undefined) {
+      container[key] = isArrayIndex(nextSegment) ? [] : {};
+      containers.add(container[key] as QueryObject);
+    } else if (!isContainer) {
+      return;
+    } else if (Array.isArray(existing) && !isArrayIndex(nextSegment)) {
+      container[key] = Object.fromEntries(existing.entries());
+      containers.add(container[key] as QueryObject);
+    }
+
+    current = container[key] as QueryObject;
+  }
+}
+
+/**
+ * Parse the search params of a request into the object validated against the query schema
+ * @param searchParams - The search params of the request URL
+ * @param parser - The parser mode, or a custom parser function
+ * @returns The parsed query, with all values left as strings so that schema coercion can convert them
+ */
+export function parseQuery(searchParams: URLSearchParams, parser: QueryParser = 'simple'): unknown {
+  if (typeof parser === 'function') {
+    return parser(searchParams);
+  }
+
+  if (parser === 'simple') {
+    return Object.fromEntries(searchParams.entries());
+  }
+
+  const result: Record<string, unknown> = {};
+  const containers = new WeakSet<object>();
+
+  for (const [key, value] of searchParams.entries()) {
+    if (parser === 'arrays') {
+      if (!forbiddenSegments.includes(key)) {
+        appendValue(result, key, value);
+      }
+    } else {
+      assignPath(result, parseKey(key), value, containers);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,107 @@
+import { SafeRouteValidationError } from './errors';
+
+const methodsWithoutBody = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Get the media type of the request without any parameters (e.g. `charset` or `boundary`)
+ * @param request - The incoming request
+ * @returns The lowercased media type, or undefined if the request has no Content-Type header
+ */
+function getMediaType(request: Request) {
+  const contentType = request.headers.get('content-type');
+  if (!contentType) {
+    return undefined;
+  }
+
+  return contentType.split(';')[0]?.trim().toLowerCase();
+}
+
+function isJsonMediaType(mediaType: string) {
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+/**
+ * Check whether the request body may be parsed, based on the content types accepted by the route
+ * @param request - The incoming request
+ * @param contentTypes - The accepted content types, which may contain wildcards such as `text/*`
+ * @returns Whether the request content type is accepted
+ */
+export function isContentTypeAccepted(request: Request, contentTypes?: string[]) {
+  if (!contentTypes || methodsWithoutBody.includes(request.method) || request.body === null) {
+    return true;
+  }
+
+  const mediaType = getMediaType(request);
+  if (!mediaType) {
+    return false;
+  }
+
+  const [type] = mediaType.split('/');
+  return contentTypes.some((contentType) => {
+    const accepted = contentType.toLowerCase();
+    return accepted === '*/*' || accepted === mediaType || accepted === `${type}/*`;
+  });
+}
+
+/**
+ * Convert form data into a plain object, collecting repeated keys into arrays and keeping `File` entries as is
+ * @param formData - The form data to convert
+ * @returns The form data as an object
+ */
+export function formDataToObject(formData: FormData) {
+  const result: Record<string, FormDataEntryValue | FormDataEntryValue[]> = {};
+
+  formData.forEach((value, key) => {
+    const existing = result[key];
+    if (existing === undefined) {
+      result[key] = value;
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else {
+      result[key] = [existing, value];
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Parse the request body according to its Content-Type header
+ * @param request - The incoming request
+ * @returns The parsed body: an object for JSON and form data, a string for text and an ArrayBuffer for anything else
+ */
+export async function parseRequestBody(request: Request): Promise<unknown> {
+  if (methodsWithoutBody.includes(request.method) || request.body === null) {
+    return {};
+  }
+
+  const mediaType = getMediaType(request);
+
+  // Requests without a Content-Type header are treated as JSON
+  if (!mediaType || isJsonMediaType(mediaType)) {
+    const text = await request.text();
+    if (text.length === 0) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new SafeRouteValidationError('body', [{ message: 'Body is not valid JSON' }]);
+    }
+  }
+
+  if (mediaType === 'application/x-www-form-urlencoded' || mediaType === 'multipart/form-data') {
+    try {
+      return formDataToObject(await request.formData());
+    } catch {
+      throw new SafeRouteValidationError('body', [{ message: 'Body is not valid form data' }]);
+    }
+  }
+
+  if (mediaType.startsWith('text/')) {
+    return request.text();
+  }
+
+  return request.arrayBuffer();
+}
@@ -0,0 +1,228 @@
+/**
+ * The state of a key kept by a store, e.g. the number of requests of the current window
+ */
+export type RateLimitState = Record<string, number>;
+
+/**
+ * Where the state of the rate limits is kept. Stores backed by a shared database, such as Redis, let every instance of
+ * the app enforce the same limits.
+ */
+export interface RateLimitStore {
+  /**
+   * Update the state of a key atomically, e.g. with a transaction or a script for stores backed by a database
+   * @param key - The key of the client
+   * @param ttl - How long in milliseconds the state must be kept after the update
+   * @param update - Compute the new state from the current one, which may be called again if the update is retried
+   */
+  update(key: string, ttl: number, update: (state: RateLimitState | undefined) => RateLimitState): Promise<void>;
+}
+
+/**
+ * How requests are counted
+ * - `fixed-window`: allow `limit` requests per window, starting when the first request of the window is received
+ * - `token-bucket`: allow bursts of up to `limit` requests, refilling the bucket at `limit` requests per window
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'token-bucket';
+
+/**
+ * What identifies a client: its IP address, the value of a header, or a function of the request
+ */
+export type RateLimitKey<TArgs> = 'ip' | { header: string } | ((args: TArgs) => string | Promise<string>);
+
+export type RateLimitOptions<TArgs> = {
+  /**
+   * The number of requests allowed per window, or the capacity of the bucket
+   */
+  limit: number;
+  /**
+   * The duration of the window in milliseconds, or the time it takes to refill the bucket
+   */
+  window: number;
+  /**
+   * How requests are counted, defaults to `fixed-window`
+   */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * What identifies a client, defaults to `ip`. Functions receive the validated input and the context of the
+   * middlewares, and are only called once the request is validated.
+   */
+  key?: RateLimitKey<TArgs>;
+  /**
+   * The number of proxies in front of the app appending the address they receive requests from to the
+   * `X-Forwarded-For` header, used by the `ip` key when neither Next.js nor the platform provides the IP address,
+   * defaults to 1
+   */
+  trustedProxies?: number;
+  /**
+   * A header with the IP address of the client set by the platform, e.g. `x-real-ip`, used by the `ip` key before the
+   * `X-Forwarded-For` header. Only set it when the platform overwrites the header, as clients can send any value.
+   */
+  ipHeader?: string;
+  /**
+   * Where the state of the rate limit is kept, defaults to a store in memory
+   */
+  store?: RateLimitStore;
+  /**
+   * Prepended to the keys, to separate the rate limits sharing a store, defaults to `rate-limit`
+   */
+  prefix?: string;
+};
+
+/**
+ * The outcome of a request for a rate limit
+ */
+export type RateLimitResult = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** The time in milliseconds until the limit is fully reset */
+  reset: number;
+  /** The time in milliseconds until the next request is allowed, for denied requests */
+  retryAfter: number;
+  policy: string;
+};
+
+/**
+ * A store keeping the state of the rate limits in the memory of the process, so each instance of the app enforces its
+ * own limits. Expired keys are removed periodically.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { state: RateLimitState; expiresAt: number }>();
+  private nextSweep = 0;
+
+  async update(key: string, ttl: number, update: (state: RateLimitState | undefined) => RateLimitState) {
+    const now = Date.now();
+    if (now >= this.nextSweep) {
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(entryKey);
+        }
+      }
+      this.nextSweep = now + 60_000;
+    }
+
+    const entry = this.entries.get(key);
+    const state = entry && entry.expiresAt > now ? entry.state : undefined;
+    this.entries.set(key, { state: update(state), expiresAt: now + ttl });
+  }
+}
+
+/**
+ * Get the IP address of the client, from the `ip` of Next.js requests or the headers set by the platform and proxies.
+ * The leftmost entries of the `X-Forwarded-For` header are sent by the client, so only the entries appended by the
+ * trusted proxies are used.
+ * @param request - The incoming request
+ * @param trustedProxies - The number of proxies appending to the `X-Forwarded-For` header
+ * @param ipHeader - The header set by the platform with the IP address, if any
+ * @returns The IP address, or undefined if the request has none
+ */
+function getIp(request: Request, trustedProxies: number, ipHeader: string | undefined) {
+  const ip = (request as { ip?: string }).ip || (ipHeader && request.headers.get(ipHeader)?.trim());
+  if (ip) {
+    return ip;
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',') ?? [];
+  if (trustedProxies < 1 || forwardedFor.length < trustedProxies) {
+    return undefined;
+  }
+
+  return forwardedFor[forwardedFor.length - trustedProxies]!.trim() || undefined;
+}
+
+/**
+ * Get the key identifying the client of a request
+ * @param options - The rate limit
+ * @param request - The incoming request
+ * @param args - The arguments passed to key functions
+ * @returns The key of the client, or undefined for the `ip` key of requests without an IP address
+ */
+export async function getRateLimitKey<TArgs>(options: RateLimitOptions<TArgs>, request: Request, args: TArgs) {
+  const { key = 'ip', trustedProxies = 1, ipHeader } = options;
+  if (key === 'ip') {
+    const ip = getIp(request, trustedProxies, ipHeader);
+    return ip && `ip:${ip}`;
+  }
+
+  if (typeof key === 'function') {
+    return key(args);
+  }
+
+  return `${key.header.toLowerCase()}:${request.headers.get(key.header) ?? ''}`;
+}
+
+/**
+ * Count a request against a rate limit
+ * @param options - The rate limit
+ * @param store - The store keeping the state of the rate limit
+ * @param key - The key of the client
+ * @returns Whether the request is allowed, with the state of the rate limit for the headers
+ */
+export async function consumeRateLimit<TArgs>(
+  options: RateLimitOptions<TArgs>,
+  store: RateLimitStore,
+  key: string,
+): Promise<RateLimitResult> {
+  const { limit, window, algorithm = 'fixed-window', prefix = 'rate-limit' } = options;
+  const policy = `${limit};w=${Math.ceil(window / 1000)}`;
+  let result: RateLimitResult | undefined;
+
+  await store.update(`${prefix}:${key}`, window, (state): RateLimitState => {
+    const now = Date.now();
+
+    if (algorithm === 'token-bucket') {
+      // Refill the bucket for the time elapsed since the last request, then take a token if there is one
+      const refillRate = limit / window;
+      const elapsed = state ? now - state.updatedAt! : 0;
+      const available = state ? Math.min(limit, state.tokens! + elapsed * refillRate) : limit;
+      const allowed = available >= 1;
+      const tokens = allowed ? available - 1 : available;
+      result = {
+        allowed,
+        limit,
+        remaining: Math.floor(tokens),
+        reset: (limit - tokens) / refillRate,
+        retryAfter: allowed ? 0 : (1 - tokens) / refillRate,
+        policy,
+      };
+
+      return { tokens, updatedAt: now };
+    }
+
+    // Start a new window when the previous one is over
+    const windowState = state && state.resetAt! > now ? state : { count: 0, resetAt: now + window };
+    const count = windowState.count! + 1;
+    const allowed = count <= limit;
+    result = {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - count),
+      reset: windowState.resetAt! - now,
+      retryAfter: allowed ? 0 : windowState.resetAt! - now,
+      policy,
+    };
+
+    return { count, resetAt: windowState.resetAt! };
+  });
+
+  return result!;
+}
+
+/**
+ * Get the headers describing the state of a rate limit, following the IETF draft for RateLimit header fields
+ * @param result - The outcome of the request
+ * @returns The `RateLimit-*` headers, and `Retry-After` for denied requests
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.reset / 1000)),
+    'RateLimit-Policy': result.policy,
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfter / 1000));
+  }
+
+  return headers;
+}
@@ -0,0 +1,180 @@
+import type { ValidationIssue } from './adapters/types';
+import type { ClientError, ClientResult } from './client';
+import type { ValidationSegment } from './errors';
+import type { HttpMethod, RouteInput } from './types';
+
+export type RequestOptions = Partial<RouteInput> & Omit<RequestInit, 'method' | 'body'>;
+
+/**
+ * Replace the dynamic segments of a path (`[id]`, `[...slug]`, `[[...slug]]`) with the params
+ * @param path - The path of the route
+ * @param params - The params of the dynamic segments
+ * @returns The path with its dynamic segments replaced by the encoded params
+ */
+function buildPath(path: string, params: Record<string, unknown> = {}) {
+  return path
+    .split('/')
+    .flatMap((segment) => {
+      const match = /^\[(\[)?(\.\.\.)?([^\]]+)\]?\]$/.exec(segment);
+      if (!match) {
+        return [segment];
+      }
+
+      const [, optional, catchAll, name] = match;
+      const value = params[name!];
+      if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+        if (optional) {
+          return [];
+        }
+
+        throw new Error(`Missing param ${name}`);
+      }
+
+      const values = catchAll && Array.isArray(value) ? value : [value];
+      return values.map((item) => encodeURIComponent(String(item)));
+    })
+    .join('/');
+}
+
+/**
+ * Append a query value, using repeated keys for arrays and bracket notation for objects
+ * @param searchParams - The search params to append to
+ * @param key - The key of the value
+ * @param value - The value to append
+ */
+function appendQuery(searchParams: URLSearchParams, key: string, value: unknown) {
+  if (value === undefined || value === null) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      appendQuery(searchParams, typeof item === 'object' && item !== null ? `${key}[${index}]` : key, item),
+    );
+  } else if (value instanceof Date) {
+    searchParams.append(key, value.toISOString());
+  } else if (typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      appendQuery(searchParams, `${key}[${childKey}]`, childValue);
+    }
+  } else {
+    searchParams.append(key, String(value));
+  }
+}
+
+/**
+ * Whether a body can be sent as is rather than serialized as JSON
+ * @param body - The body of the request
+ * @returns Whether the body is a native body type
+ */
+function isNativeBody(body: unknown): body is BodyInit {
+  return (
+    typeof body === 'string' ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+/**
+ * Read the body of a response according to its content type
+ * @param response - The response of the route
+ * @returns The parsed JSON, the text, or undefined for empty or binary bodies
+ */
+async function readBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase();
+  if (!contentType || response.body === null) {
+    return undefined;
+  }
+
+  if (contentType === 'application/json' || contentType.endsWith('+json')) {
+    return response.json();
+  }
+
+  if (contentType.startsWith('text/')) {
+    return response.text();
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert the body of an error response into a client error
+ * @param response - The error response
+ * @param body - The parsed body of the response
+ * @returns The client error
+ */
+function toClientError(response: Response, body: unknown): ClientError {
+  const fields: Record<string, unknown> = typeof body === 'object' && body !== null ? { ...body } : {};
+  const { message, segment, errors, details } = fields;
+  const errorMessage = typeof message === 'string' ? message : response.statusText;
+
+  if (typeof segment === 'string' && Array.isArray(errors)) {
+    return {
+      type: 'validation',
+      status: response.status,
+      message: errorMessage,
+      segment: segment as ValidationSegment,
+      errors: errors as ValidationIssue[],
+    };
+  }
+
+  return details === undefined
+    ? { type: 'http', status: response.status, message: errorMessage }
+    : { type: 'http', status: response.status, message: errorMessage, details };
+}
+
+/**
+ * Create the request for a route, replacing the dynamic segments of the URL with the params
+ * @param method - The method of the request
+ * @param url - The URL of the route, with its dynamic segments (e.g. `/items/[id]`)
+ * @param options - The params, query and body of the request, and any other options of `fetch`
+ * @param defaultHeaders - Headers to send unless the options override them
+ * @returns The request
+ */
+export function createRequest(
+  method: HttpMethod,
+  url: URL,
+  { params, query, body, headers, ...init }: RequestOptions = {},
+  defaultHeaders?: HeadersInit,
+) {
+  const requestUrl = new URL(buildPath(url.pathname, params as Record<string, unknown>), url);
+  requestUrl.search = url.search;
+  for (const [key, value] of Object.entries(query ?? {})) {
+    appendQuery(requestUrl.searchParams, key, value);
+  }
+
+  const requestHeaders = new Headers(defaultHeaders);
+  new Headers(headers).forEach((value, key) => requestHeaders.set(key, value));
+
+  let requestBody: BodyInit | undefined;
+  if (body !== undefined && method !== 'GET' && method !== 'HEAD') {
+    if (isNativeBody(body)) {
+      requestBody = body;
+    } else {
+      requestBody = JSON.stringify(body);
+      if (!requestHeaders.has('content-type')) {
+        requestHeaders.set('content-type', 'application/json');
+      }
+    }
+  }
+
+  return new Request(requestUrl, { ...init, method, headers: requestHeaders, body: requestBody });
+}
+
+/**
+ * Read the response of a route into its data or error
+ * @param response - The response of the route
+ * @returns The data for successful responses, or the error for error responses
+ */
+export async function toClientResult(response: Response): Promise<ClientResult<unknown>> {
+  const data = await readBody(response.clone());
+
+  if (!response.ok) {
+    return { data: undefined, error: toClientError(response, data), response };
+  }
+
+  return { data, error: undefined, response };
+}
@@ -0,0 +1,52 @@
+export const handlerResultSymbol = Symbol.for('next-safe-route.handlerResult');
+
+/**
+ * A JSON response with a custom status code and headers, created with `respond`
+ */
+export type HandlerResult<T = unknown> = {
+  readonly [handlerResultSymbol]: true;
+  status: number;
+  headers?: HeadersInit;
+  body: T;
+};
+
+/**
+ * Create a JSON response with a custom status code and headers that can be returned from a handler
+ * @param body - The body of the response, which will be serialised to JSON
+ * @param init - The status code and headers of the response
+ * @returns The result to return from the handler
+ */
+export function respond<T>(body: T, init?: { status?: number; headers?: HeadersInit }): HandlerResult<T> {
+  return { [handlerResultSymbol]: true, status: init?.status ?? 200, headers: init?.headers, body };
+}
+
+function isHandlerResult(value: unknown): value is HandlerResult {
+  return typeof value === 'object' && value !== null && handlerResultSymbol in value;
+}
+
+/**
+ * Convert the value returned by a handler into a response
+ * @param result - The value returned by the handler
+ * @returns Responses as is, streams as a response body, nothing as a 204 response, and anything else as JSON
+ */
+export function toResponse(result: unknown): Response {
+  if (result instanceof Response) {
+    return result;
+  }
+
+  if (result instanceof ReadableStream) {
+    return new Response(result);
+  }
+
+  if (result === undefined) {
+    return new Response(null, { status: 204 });
+  }
+
+  if (isHandlerResult(result)) {
+    return result.body === undefined
+      ? new Response(null, { status: result.status, headers: result.headers })
+      : Response.json(result.body, { status: result.status, headers: result.headers });
+  }
+
+  return Response.json(result, { status: 200 });
+}
@@ -1,7 +1,43 @@
-import { describe, expect, it } from 'vitest';
+import { Type } from '@sinclair/typebox';
+import * as v from 'valibot';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import * as yup from 'yup';
 import { z } from 'zod';
 
-import { createSafeRoute } from '.';
+import {
+  type HandlerServerErrorFn,
+  HttpError,
+  type Infer,
+  type InferRouteInput,
+  type InferRouteOutput,
+  MemoryIdempotencyStore,
+  MemoryRateLimitStore,
+  OpenApiRegistry,
+  type RateLimitStore,
+  ResponseValidationError,
+  type RouteHooks,
+  type RouteParams,
+  SafeRouteValidationError,
+  type Schema,
+  type Span,
+  type Tracer,
+  type ValidationAdapter,
+  type ValidationIssue,
+  conflict,
+  createSafeAction,
+  createSafeRoute,
+  forbidden,
+  generateOpenApiDocument,
+  notFound,
+  respond,
+  unauthorized,
+} from '.';
+import { typeboxAdapter } from './adapters/typebox';
+import { valibotAdapter } from './adapters/valibot';
+import { yupAdapter } from './adapters/yup';
+import { zodAdapter } from './adapters/zod';
+import { createClient } from './client';
+import { expectValidationError, invokeRoute } from './testing';
 
 const paramsSchema = z.object({
   id: z.string().uuid(),
@@ -94,6 +130,7 @@ describe('body validation', () => {
 
     const request = new Request('http://localhost/', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ field: 'test-field' }),
     });
     const response = await POST(request);
@@ -113,6 +150,7 @@ describe('body validation', () => {
 
     const request = new Request('http://localhost/', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ field: 123 }),
     });
     const response = await POST(request);
@@ -139,6 +177,7 @@ describe('combined validation', () => {
 
     const request = new Request('http://localhost/?search=test', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ field: 'test-field' }),
     });
 
@@ -168,6 +207,7 @@ describe('combined validation', () => {
 
     const request = new Request('http://localhost/?search=test', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ field: 'test-field' }),
     });
 
@@ -193,6 +233,7 @@ describe('combined validation', () => {
 
     const request = new Request('http://localhost/?search=', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ field: 'test-field' }),
     });
 
@@ -218,6 +259,7 @@ describe('combined validation', () => {
 
     const request = new Request('http://localhost/?search=test', {
       method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ field: 123 }),
     });
 
@@ -317,3 +359,3024 @@ describe('combined validation', () => {
     expect(data).toEqual({ message: 'CustomError', details: 'Test error' });
   });
 });
+
+describe('parsed output', () => {
+  it('should pass coerced and defaulted values to the handler with zod', async () => {
+    const POST = createSafeRoute()
+      .params(z.object({ id: z.coerce.number() }))
+      .query(z.object({ page: z.coerce.number(), limit: z.coerce.number().default(10) }))
+      .body(z.object({ name: z.string().transform((value) => value.toUpperCase()), active: z.boolean().default(true) }))
+      .handler((request, context) => {
+        return Response.json({ params: context.params, query: context.query, body: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/?page=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+    const response = await POST(request, { params: { id: '42' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      params: { id: 42 },
+      query: { page: 2, limit: 10 },
+      body: { name: 'TEST', active: true },
+    });
+  });
+
+  it('should pass coerced and defaulted values to the handler with valibot', async () => {
+    const POST = createSafeRoute({ validationAdapter: valibotAdapter() })
+      .params(v.object({ id: v.pipe(v.string(), v.transform(Number)) }))
+      .query(v.object({ page: v.pipe(v.string(), v.transform(Number)), limit: v.optional(v.string(), '10') }))
+      .body(v.object({ name: v.pipe(v.string(), v.toUpperCase()), active: v.optional(v.boolean(), true) }))
+      .handler((request, context) => {
+        return Response.json({ params: context.params, query: context.query, body: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/?page=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+    const response = await POST(request, { params: { id: '42' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      params: { id: 42 },
+      query: { page: 2, limit: '10' },
+      body: { name: 'TEST', active: true },
+    });
+  });
+
+  it('should pass coerced and defaulted values to the handler with yup', async () => {
+    const POST = createSafeRoute({ validationAdapter: yupAdapter() })
+      .params(yup.object({ id: yup.number().required() }))
+      .query(yup.object({ page: yup.number().required(), limit: yup.number().default(10) }))
+      .body(
+        yup.object({
+          name: yup
+            .string()
+            .required()
+            .transform((value: string) => value.toUpperCase()),
+          active: yup.boolean().default(true),
+        }),
+      )
+      .handler((request, context) => {
+        return Response.json({ params: context.params, query: context.query, body: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/?page=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+    const response = await POST(request, { params: { id: '42' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      params: { id: 42 },
+      query: { page: 2, limit: 10 },
+      body: { name: 'TEST', active: true },
+    });
+  });
+});
+
+describe('typebox adapter', () => {
+  it('should pass converted and defaulted values to the handler', async () => {
+    const POST = createSafeRoute({ validationAdapter: typeboxAdapter() })
+      .params(Type.Object({ id: Type.Number() }))
+      .query(Type.Object({ page: Type.Number(), active: Type.Boolean(), limit: Type.Number({ default: 10 }) }))
+      .body(Type.Object({ name: Type.String(), tags: Type.Array(Type.String(), { default: [] }) }))
+      .handler((request, context) => {
+        return Response.json({ params: context.params, query: context.query, body: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/?page=2&active=true', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+    const response = await POST(request, { params: { id: '42' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      params: { id: 42 },
+      query: { page: 2, active: true, limit: 10 },
+      body: { name: 'test', tags: [] },
+    });
+  });
+
+  it('should apply transforms to the parsed output', async () => {
+    const POST = createSafeRoute({ validationAdapter: typeboxAdapter() })
+      .body(
+        Type.Object({
+          name: Type.Transform(Type.String())
+            .Decode((value) => value.toUpperCase())
+            .Encode((value) => value.toLowerCase()),
+        }),
+      )
+      .handler((request, context) => {
+        return Response.json({ name: context.body.name }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ name: 'TEST' });
+  });
+
+  it('should return an error when a transform fails to decode', async () => {
+    const POST = createSafeRoute({ validationAdapter: typeboxAdapter() })
+      .body(
+        Type.Object({
+          date: Type.Transform(Type.String())
+            .Decode((value) => {
+              const date = new Date(value);
+              if (Number.isNaN(date.getTime())) {
+                throw new Error('Invalid date');
+              }
+              return date;
+            })
+            .Encode((value) => value.toISOString()),
+        }),
+      )
+      .handler((request, context) => ({ date: context.body.date }));
+    const request = (date: string) =>
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date }),
+      });
+
+    const response = await POST(request('2024-01-01'));
+    const invalidResponse = await POST(request('tomorrow'));
+
+    expect(await response.json()).toEqual({ date: '2024-01-01T00:00:00.000Z' });
+    expect(invalidResponse.status).toBe(400);
+    expect(await invalidResponse.json()).toEqual({
+      message: 'Invalid body',
+      segment: 'body',
+      errors: [{ message: 'Invalid date', path: ['date'] }],
+    });
+  });
+
+  it('should map issue paths from JSON pointers', async () => {
+    const adapter = typeboxAdapter();
+    const schema = Type.Object({ items: Type.Array(Type.Object({ 'a/b': Type.String() })) });
+
+    const result = await adapter.validate(schema, { items: [{ 'a/b': {} }] });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues[0]?.path).toEqual(['items', '0', 'a/b']);
+  });
+
+  it('should return an error for invalid input', async () => {
+    const POST = createSafeRoute({ validationAdapter: typeboxAdapter() })
+      .body(Type.Object({ field: Type.String() }))
+      .handler((request, context) => {
+        return Response.json({ field: context.body.field }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid body');
+  });
+});
+
+describe('validation adapters', () => {
+  it('should validate with a custom validation adapter', async () => {
+    class CustomAdapter implements ValidationAdapter {
+      async validate<S extends Schema>(schema: S, data: unknown) {
+        const { id } = data as { id: string };
+        if (id === 'forbidden') {
+          return { success: false, issues: [{ message: 'Forbidden id', path: ['id'] }] as ValidationIssue[] } as const;
+        }
+
+        return { success: true, data: { id: `custom-${id}` } as Infer<S> } as const;
+      }
+    }
+
+    const GET = createSafeRoute({ validationAdapter: new CustomAdapter() })
+      .params(z.object({ id: z.string() }))
+      .handler((request, context) => {
+        return Response.json({ id: context.params.id }, { status: 200 });
+      });
+
+    const validResponse = await GET(new Request('http://localhost/'), { params: { id: 'abc' } });
+    expect(validResponse.status).toBe(200);
+    expect(await validResponse.json()).toEqual({ id: 'custom-abc' });
+
+    const invalidResponse = await GET(new Request('http://localhost/'), { params: { id: 'forbidden' } });
+    expect(invalidResponse.status).toBe(400);
+    expect((await invalidResponse.json()).message).toBe('Invalid params');
+  });
+
+  it('should return an error for invalid input with valibot', async () => {
+    const POST = createSafeRoute({ validationAdapter: valibotAdapter() })
+      .body(v.object({ field: v.string() }))
+      .handler((request, context) => {
+        return Response.json({ field: context.body.field }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ field: 123 }),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid body');
+  });
+
+  it('should return an error for invalid input with yup', async () => {
+    const POST = createSafeRoute({ validationAdapter: yupAdapter() })
+      .body(yup.object({ field: yup.string().required() }))
+      .handler((request, context) => {
+        return Response.json({ field: context.body.field }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid body');
+  });
+});
+
+describe('body parsing', () => {
+  it('should parse url-encoded form data with repeated keys as arrays', async () => {
+    const POST = createSafeRoute()
+      .body(z.object({ name: z.string(), tags: z.array(z.string()) }))
+      .handler((request, context) => {
+        return Response.json(context.body, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams([
+        ['name', 'test'],
+        ['tags', 'a'],
+        ['tags', 'b'],
+      ]),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ name: 'test', tags: ['a', 'b'] });
+  });
+
+  it('should parse multipart form data and preserve files', async () => {
+    const POST = createSafeRoute()
+      .body(z.object({ title: z.string(), file: z.instanceof(File) }))
+      .handler(async (request, context) => {
+        const { title, file } = context.body;
+        return Response.json({ title, name: file.name, content: await file.text() }, { status: 200 });
+      });
+
+    const formData = new FormData();
+    formData.append('title', 'Report');
+    formData.append('file', new File(['hello'], 'report.txt', { type: 'text/plain' }));
+
+    const request = new Request('http://localhost/', { method: 'POST', body: formData });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ title: 'Report', name: 'report.txt', content: 'hello' });
+  });
+
+  it('should parse text bodies as strings', async () => {
+    const POST = createSafeRoute()
+      .body(z.string().min(1))
+      .handler((request, context) => {
+        return Response.json({ text: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'hello world',
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ text: 'hello world' });
+  });
+
+  it('should parse binary bodies as array buffers', async () => {
+    const POST = createSafeRoute()
+      .body(z.instanceof(ArrayBuffer))
+      .handler((request, context) => {
+        return Response.json({ size: context.body.byteLength }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: new Uint8Array([1, 2, 3]),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ size: 3 });
+  });
+
+  it('should handle requests without a body', async () => {
+    const DELETE = createSafeRoute()
+      .params(paramsSchema)
+      .handler((request, context) => {
+        return Response.json({ id: context.params.id, body: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', { method: 'DELETE' });
+    const response = await DELETE(request, { params: { id: '550e8400-e29b-41d4-a716-446655440000' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ id: '550e8400-e29b-41d4-a716-446655440000', body: {} });
+  });
+
+  it('should return an error for malformed JSON', async () => {
+    const POST = createSafeRoute()
+      .body(bodySchema)
+      .handler((request, context) => {
+        return Response.json({ field: context.body.field }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{ "field": ',
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid body');
+  });
+
+  it('should return 415 for content types the route does not accept', async () => {
+    const POST = createSafeRoute()
+      .accepts('application/json')
+      .body(bodySchema)
+      .handler((request, context) => {
+        return Response.json({ field: context.body.field }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'field=test',
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(415);
+    expect(data.message).toBe('Unsupported content type');
+  });
+
+  it('should accept content types matching a wildcard', async () => {
+    const POST = createSafeRoute()
+      .accepts('text/*')
+      .body(z.string())
+      .handler((request, context) => {
+        return Response.json({ text: context.body }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+      body: 'a,b,c',
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ text: 'a,b,c' });
+  });
+});
+
+describe('validation error responses', () => {
+  it('should return the same JSON shape for every segment', async () => {
+    const GET = createSafeRoute()
+      .params(paramsSchema)
+      .handler((request, context) => {
+        return Response.json({ id: context.params.id }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request, { params: { id: 'invalid-uuid' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(data).toEqual({
+      message: 'Invalid params',
+      segment: 'params',
+      errors: [{ message: 'Invalid uuid', path: ['id'] }],
+    });
+  });
+
+  it('should format validation errors with a custom formatter', async () => {
+    const GET = createSafeRoute({
+      formatValidationError: (error) => {
+        return Response.json(
+          { type: 'about:blank', title: 'Bad Request', status: 400, detail: error.message, segment: error.segment },
+          { status: 400, headers: { 'Content-Type': 'application/problem+json' } },
+        );
+      },
+    })
+      .query(querySchema)
+      .handler((request, context) => {
+        return Response.json({ search: context.query.search }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/?search=');
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+    expect(data).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Invalid query',
+      segment: 'query',
+    });
+  });
+
+  it('should pass a SafeRouteValidationError to the formatter', async () => {
+    let receivedError: unknown;
+
+    const POST = createSafeRoute({
+      formatValidationError: (error) => {
+        receivedError = error;
+        return new Response(null, { status: 422 });
+      },
+    })
+      .body(bodySchema)
+      .handler((request, context) => {
+        return Response.json({ field: context.body.field }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ field: 123 }),
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(422);
+    expect(receivedError).toBeInstanceOf(SafeRouteValidationError);
+    expect((receivedError as SafeRouteValidationError).segment).toBe('body');
+    expect((receivedError as SafeRouteValidationError).issues[0]?.path).toEqual(['field']);
+  });
+});
+
+describe('server errors', () => {
+  it('should return a generic 500 response for errors thrown by the handler', async () => {
+    const GET = createSafeRoute().handler(() => {
+      throw new Error('Database connection timed out');
+    });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ message: 'Internal server error' });
+  });
+
+  it('should return a generic 500 response for non-error values thrown by the handler', async () => {
+    const GET = createSafeRoute().handler(() => {
+      throw 'Something went wrong';
+    });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request);
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ message: 'Internal server error' });
+  });
+
+  it('should pass the request and error category to handleServerError', async () => {
+    const calls: Array<{ message: string; url: string; category: string }> = [];
+    const handleServerError: HandlerServerErrorFn = (error, { request, category }) => {
+      calls.push({ message: error.message, url: request.url, category });
+      return undefined;
+    };
+
+    const GET = createSafeRoute({ handleServerError })
+      .query(querySchema)
+      .handler(() => {
+        throw new Error('Unexpected failure');
+      });
+
+    const invalidResponse = await GET(new Request('http://localhost/?search='));
+    const failingResponse = await GET(new Request('http://localhost/?search=test'));
+
+    expect(invalidResponse.status).toBe(400);
+    expect(failingResponse.status).toBe(500);
+    expect(calls).toEqual([
+      { message: 'Invalid query', url: 'http://localhost/?search=', category: 'validation' },
+      { message: 'Unexpected failure', url: 'http://localhost/?search=test', category: 'server' },
+    ]);
+  });
+});
+
+describe('http errors', () => {
+  it('should respond with the status of an HttpError thrown by the handler', async () => {
+    const GET = createSafeRoute()
+      .params(paramsSchema)
+      .handler(() => {
+        throw notFound();
+      });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request, { params: { id: '550e8400-e29b-41d4-a716-446655440000' } });
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(data).toEqual({ message: 'Not found' });
+  });
+
+  it('should respond with the status and headers of an HttpError thrown by a middleware', async () => {
+    const middleware = async () => {
+      throw unauthorized(undefined, { message: 'Missing token', headers: { 'WWW-Authenticate': 'Bearer' } });
+    };
+
+    const GET = createSafeRoute()
+      .use(middleware)
+      .handler(() => {
+        return Response.json({}, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('WWW-Authenticate')).toBe('Bearer');
+    expect(data).toEqual({ message: 'Missing token' });
+  });
+
+  it('should include the details of an HttpError in the response', async () => {
+    const POST = createSafeRoute()
+      .body(bodySchema)
+      .handler((request, context) => {
+        throw conflict({ field: context.body.field });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ field: 'taken' }),
+    });
+    const response = await POST(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data).toEqual({ message: 'Conflict', details: { field: 'taken' } });
+  });
+
+  it('should pass HttpErrors to handleServerError with their status intact', async () => {
+    const handleServerError: HandlerServerErrorFn = (error, { category }) => {
+      if (error instanceof HttpError) {
+        return Response.json({ error: error.message, category }, { status: error.status });
+      }
+    };
+
+    const GET = createSafeRoute({ handleServerError }).handler(() => {
+      throw new HttpError(403, 'Not allowed');
+    });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data).toEqual({ error: 'Not allowed', category: 'http' });
+  });
+});
+
+describe('response validation', () => {
+  const userSchema = z.object({ id: z.string(), name: z.string() });
+
+  it('should strip unknown keys from the response body', async () => {
+    const GET = createSafeRoute()
+      .response(userSchema)
+      .handler(() => {
+        return Response.json({ id: 'user-123', name: 'Test', passwordHash: 'secret' }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ id: 'user-123', name: 'Test' });
+  });
+
+  it('should strip unknown keys from responses but not from requests with every adapter', async () => {
+    const routes = [
+      createSafeRoute({ validationAdapter: typeboxAdapter() })
+        .body(Type.Object({ name: Type.String() }, { additionalProperties: false }))
+        .response(Type.Object({ name: Type.String() }, { additionalProperties: false })),
+      createSafeRoute({ validationAdapter: yupAdapter() })
+        .body(yup.object({ name: yup.string().required() }).noUnknown())
+        .response(yup.object({ name: yup.string().required() }).noUnknown()),
+    ];
+    const request = (body: unknown) =>
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    for (const route of routes) {
+      const POST = route.handler(() => Response.json({ name: 'Item', passwordHash: 'secret' }));
+
+      const response = await POST(request({ name: 'Item' }));
+      const unknownKeyResponse = await POST(request({ name: 'Item', evil: 1 }));
+
+      expect(await response.json()).toEqual({ name: 'Item' });
+      expect(unknownKeyResponse.status).toBe(400);
+    }
+  });
+
+  it('should return a 500 error for a response that does not match its schema', async () => {
+    const GET = createSafeRoute()
+      .response(userSchema)
+      .handler(() => {
+        return Response.json({ id: 'user-123' }, { status: 200 });
+      });
+
+    const request = new Request('http://localhost/');
+    const response = await GET(request);
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data).toEqual({ message: 'Internal server error' });
+  });
+
+  it('should pass a ResponseValidationError to handleServerError', async () => {
+    let receivedError: unknown;
+
+    const GET = createSafeRoute({
+      handleServerError: (error) => {
+        receivedError = error;
+      },
+    })
+      .response(userSchema)
+      .handler(() => {
+        return Response.json({ id: 123 }, { status: 200 });
+      });
+
+    await GET(new Request('http://localhost/'));
+
+    expect(receivedError).toBeInstanceOf(ResponseValidationError);
+    expect((receivedError as ResponseValidationError).status).toBe(200);
+  });
+
+  it('should validate responses against the schema for their status code', async () => {
+    const GET = createSafeRoute()
+      .query(z.object({ exists: z.enum(['true', 'false']) }))
+      .response(userSchema)
+      .response(404, z.object({ message: z.string() }))
+      .handler((request, context) => {
+        if (context.query.exists === 'false') {
+          return Response.json({ message: 'Not found', stack: 'internal' }, { status: 404 });
+        }
+
+        return Response.json({ id: 'user-123', name: 'Test' }, { status: 200 });
+      });
+
+    const foundResponse = await GET(new Request('http://localhost/?exists=true'));
+    expect(foundResponse.status).toBe(200);
+    expect(await foundResponse.json()).toEqual({ id: 'user-123', name: 'Test' });
+
+    const notFoundResponse = await GET(new Request('http://localhost/?exists=false'));
+    expect(notFoundResponse.status).toBe(404);
+    expect(await notFoundResponse.json()).toEqual({ message: 'Not found' });
+  });
+
+  it('should not validate error responses without a schema for their status code', async () => {
+    const GET = createSafeRoute()
+      .response(userSchema)
+      .handler(() => {
+        throw notFound();
+      });
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ message: 'Not found' });
+  });
+
+  it('should send invalid responses as is when response validation only logs', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const GET = createSafeRoute({ responseValidation: 'log' })
+      .response(userSchema)
+      .handler(() => {
+        return Response.json({ id: 'user-123' }, { status: 200 });
+      });
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 'user-123' });
+    expect(warn).toHaveBeenCalledOnce();
+
+    warn.mockRestore();
+  });
+
+  it('should skip response validation when it is disabled', async () => {
+    const GET = createSafeRoute({ responseValidation: 'off' })
+      .response(userSchema)
+      .handler(() => {
+        return Response.json({ id: 'user-123', extra: true }, { status: 200 });
+      });
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 'user-123', extra: true });
+  });
+});
+
+describe('handler return values', () => {
+  it('should serialise plain values to JSON responses', async () => {
+    const GET = createSafeRoute()
+      .params(paramsSchema)
+      .handler((request, context) => {
+        return { id: context.params.id };
+      });
+
+    const response = await GET(new Request('http://localhost/'), {
+      params: { id: '550e8400-e29b-41d4-a716-446655440000' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/json');
+    expect(await response.json()).toEqual({ id: '550e8400-e29b-41d4-a716-446655440000' });
+  });
+
+  it('should serialise results created with respond using their status and headers', async () => {
+    const POST = createSafeRoute()
+      .body(bodySchema)
+      .handler(async (request, context) => {
+        return respond({ field: context.body.field }, { status: 201, headers: { Location: '/items/1' } });
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ field: 'test-field' }),
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('Location')).toBe('/items/1');
+    expect(await response.json()).toEqual({ field: 'test-field' });
+  });
+
+  it('should respond with 204 when the handler returns nothing', async () => {
+    const DELETE = createSafeRoute().handler(() => {});
+
+    const response = await DELETE(new Request('http://localhost/', { method: 'DELETE' }));
+
+    expect(response.status).toBe(204);
+    expect(response.body).toBeNull();
+  });
+
+  it('should pass responses and streams through untouched', async () => {
+    const response = new Response('plain text', { status: 202, headers: { 'Content-Type': 'text/plain' } });
+    const GET = createSafeRoute().handler(() => response);
+
+    expect(await GET(new Request('http://localhost/'))).toBe(response);
+
+    const STREAM = createSafeRoute().handler(() => {
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('streamed'));
+          controller.close();
+        },
+      });
+    });
+
+    const streamResponse = await STREAM(new Request('http://localhost/'));
+    expect(await streamResponse.text()).toBe('streamed');
+  });
+
+  it('should validate plain values against the response schema', async () => {
+    const GET = createSafeRoute()
+      .response(z.object({ id: z.string(), createdAt: z.string() }))
+      .handler(() => {
+        return { id: 'item-1', createdAt: '2024-01-01', internal: true };
+      });
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: 'item-1', createdAt: '2024-01-01' });
+  });
+
+  it('should infer the output type of the route handler', () => {
+    const withSchema = createSafeRoute()
+      .response(z.object({ id: z.string(), count: z.coerce.number() }))
+      .handler(() => ({ id: 'item-1', count: 1 }));
+    const withoutSchema = createSafeRoute().handler(async () => respond({ ok: true }, { status: 201 }));
+
+    expectTypeOf<InferRouteOutput<typeof withSchema>>().toEqualTypeOf<{ id: string; count: number }>();
+    expectTypeOf<InferRouteOutput<typeof withoutSchema>>().toEqualTypeOf<{ ok: boolean }>();
+
+    createSafeRoute()
+      .response(z.object({ id: z.string() }))
+      // @ts-expect-error - the returned value does not match the response schema
+      .handler(() => ({ id: 123 }));
+  });
+});
+
+describe('middlewares', () => {
+  it('should pass the validated input and previous context to middlewares', async () => {
+    const GET = createSafeRoute()
+      .params(z.object({ orgId: z.coerce.number() }))
+      .query(querySchema)
+      .use(async () => ({ user: { id: 'user-123', orgIds: [1, 2] } }))
+      .use(async ({ params, query, ctx }) => {
+        if (!ctx.user.orgIds.includes(params.orgId)) {
+          throw forbidden();
+        }
+
+        return { org: { id: params.orgId, search: query.search } };
+      })
+      .handler((request, context) => {
+        return { user: context.data.user.id, org: context.data.org };
+      });
+
+    const allowedResponse = await GET(new Request('http://localhost/?search=test'), { params: { orgId: '2' } });
+    expect(allowedResponse.status).toBe(200);
+    expect(await allowedResponse.json()).toEqual({ user: 'user-123', org: { id: 2, search: 'test' } });
+
+    const forbiddenResponse = await GET(new Request('http://localhost/?search=test'), { params: { orgId: '3' } });
+    expect(forbiddenResponse.status).toBe(403);
+  });
+
+  it('should stop the execution when a middleware returns a response', async () => {
+    const handler = vi.fn(() => ({ ok: true }));
+
+    const GET = createSafeRoute()
+      .use(async () => {
+        return Response.json({ message: 'Too many requests' }, { status: 429, headers: { 'Retry-After': '60' } });
+      })
+      .handler(handler);
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('60');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should let middlewares wrap the rest of the chain with next', async () => {
+    const order: string[] = [];
+
+    const GET = createSafeRoute()
+      .use(async ({ next }) => {
+        order.push('before');
+        const response = await next({ requestId: 'request-123' });
+        order.push('after');
+        response.headers.set('X-Request-Id', 'request-123');
+        return response;
+      })
+      .handler((request, context) => {
+        order.push('handler');
+        return { data: context.data };
+      });
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Request-Id')).toBe('request-123');
+    expect(await response.json()).toEqual({ data: { requestId: 'request-123' } });
+    expect(order).toEqual(['before', 'handler', 'after']);
+  });
+
+  it('should accumulate the context types through the chain', () => {
+    createSafeRoute()
+      .use(async () => ({ user: { id: 'user-123' } }))
+      .use(async ({ ctx }) => {
+        expectTypeOf(ctx.user).toEqualTypeOf<{ id: string }>();
+
+        if (ctx.user.id === 'blocked') {
+          return new Response(null, { status: 403 });
+        }
+
+        return { permissions: ['read'] };
+      })
+      .use(async () => {})
+      .handler((request, context) => {
+        expectTypeOf(context.data.user).toEqualTypeOf<{ id: string }>();
+        expectTypeOf(context.data.permissions).toEqualTypeOf<string[]>();
+
+        return {};
+      });
+  });
+});
+
+describe('middleware phases', () => {
+  it('should run beforeParsing middlewares before the body is parsed and validated', async () => {
+    const POST = createSafeRoute()
+      .body(bodySchema)
+      .use(
+        async ({ request }) => {
+          if (!request.headers.get('Authorization')) {
+            throw unauthorized();
+          }
+        },
+        { phase: 'beforeParsing' },
+      )
+      .handler((request, context) => {
+        return { field: context.body.field };
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{ "field": ',
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should pass the context of beforeParsing middlewares to later middlewares and the handler', async () => {
+    const order: string[] = [];
+
+    const POST = createSafeRoute()
+      .body(bodySchema)
+      .use(async () => {
+        order.push('afterValidation');
+      })
+      .use(
+        async () => {
+          order.push('beforeParsing');
+          return { user: { name: 'Test' } };
+        },
+        { phase: 'beforeParsing' },
+      )
+      .use(async ({ ctx, body }) => {
+        return { greeting: `${ctx.user.name}: ${body.field}` };
+      })
+      .handler((request, context) => {
+        return { greeting: context.data.greeting, user: context.data.user };
+      });
+
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ field: 'hello' }),
+    });
+    const response = await POST(request);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ greeting: 'Test: hello', user: { name: 'Test' } });
+    expect(order).toEqual(['beforeParsing', 'afterValidation']);
+  });
+
+  it('should only expose the context of beforeParsing middlewares to beforeParsing middlewares', () => {
+    createSafeRoute()
+      .use(async () => ({ tenant: 'tenant-1' }), { phase: 'beforeParsing' })
+      .use(async () => ({ user: { id: 'user-123' } }))
+      .use(
+        async (args) => {
+          expectTypeOf(args.ctx).toEqualTypeOf<{ tenant: string }>();
+          expectTypeOf(args).not.toHaveProperty('body');
+        },
+        { phase: 'beforeParsing' },
+      )
+      .handler((request, context) => {
+        expectTypeOf(context.data).toMatchTypeOf<{ tenant: string; user: { id: string } }>();
+
+        return {};
+      });
+  });
+});
+
+describe('query parsing', () => {
+  it('should keep the last value of repeated keys by default', async () => {
+    const GET = createSafeRoute()
+      .query(z.object({ tag: z.string() }))
+      .handler((request, context) => context.query);
+
+    const response = await GET(new Request('http://localhost/?tag=a&tag=b'));
+
+    expect(await response.json()).toEqual({ tag: 'b' });
+  });
+
+  it('should collect repeated keys into arrays', async () => {
+    const GET = createSafeRoute()
+      .query(z.object({ tag: z.array(z.string()), page: z.coerce.number() }), { parser: 'arrays' })
+      .handler((request, context) => context.query);
+
+    const response = await GET(new Request('http://localhost/?tag=a&tag=b&page=2'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ tag: ['a', 'b'], page: 2 });
+  });
+
+  it('should parse bracket and dot notation into nested objects and arrays', async () => {
+    const GET = createSafeRoute()
+      .query(
+        z.object({
+          filter: z.object({ status: z.string(), owner: z.object({ id: z.string() }) }),
+          tags: z.array(z.string()),
+          items: z.array(z.object({ name: z.string(), quantity: z.coerce.number() })),
+          active: z.enum(['true', 'false']).transform((value) => value === 'true'),
+        }),
+        { parser: 'nested' },
+      )
+      .handler((request, context) => context.query);
+
+    const search = new URLSearchParams([
+      ['filter[status]', 'open'],
+      ['filter.owner.id', 'user-123'],
+      ['tags[]', 'a'],
+      ['tags[]', 'b'],
+      ['items[0][name]', 'apple'],
+      ['items[0][quantity]', '3'],
+      ['items[1][name]', 'pear'],
+      ['items[1][quantity]', '5'],
+      ['active', 'true'],
+    ]);
+    const response = await GET(new Request(`http://localhost/?${search}`));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      filter: { status: 'open', owner: { id: 'user-123' } },
+      tags: ['a', 'b'],
+      items: [
+        { name: 'apple', quantity: 3 },
+        { name: 'pear', quantity: 5 },
+      ],
+      active: true,
+    });
+  });
+
+  it('should keep the value of keys that also have nested keys whatever their order', async () => {
+    const GET = createSafeRoute()
+      .query(z.record(z.unknown()), { parser: 'nested' })
+      .handler((request, context) => context.query);
+
+    const queries = ['a=1&a[b]=2&c[]=3&c=4', 'a[b]=2&a=1&c=4&c[]=3'];
+    for (const query of queries) {
+      const response = await GET(new Request(`http://localhost/?${query}`));
+
+      expect(await response.json()).toEqual({ a: '1', c: '4' });
+    }
+  });
+
+  it('should ignore prototype keys and inherited properties', async () => {
+    const GET = createSafeRoute()
+      .query(z.record(z.unknown()), { parser: 'nested' })
+      .handler((request, context) => context.query);
+
+    const response = await GET(new Request('http://localhost/?__proto__[polluted]=yes&toString=a&a[constructor]=b'));
+
+    expect(await response.json()).toEqual({ toString: 'a' });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should parse the query with a custom parser', async () => {
+    const GET = createSafeRoute()
+      .query(z.object({ ids: z.array(z.string()) }), {
+        parser: (searchParams) => ({ ids: searchParams.get('ids')?.split(',') ?? [] }),
+      })
+      .handler((request, context) => context.query);
+
+    const response = await GET(new Request('http://localhost/?ids=1,2,3'));
+
+    expect(await response.json()).toEqual({ ids: ['1', '2', '3'] });
+  });
+});
+
+describe('route segment context', () => {
+  it('should await params passed as a promise', async () => {
+    const GET = createSafeRoute()
+      .params(paramsSchema)
+      .handler((request, context) => ({ id: context.params.id }));
+
+    const response = await GET(new Request('http://localhost/'), {
+      params: Promise.resolve({ id: '550e8400-e29b-41d4-a716-446655440000' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ id: '550e8400-e29b-41d4-a716-446655440000' });
+  });
+
+  it('should validate catch-all params', async () => {
+    const GET = createSafeRoute()
+      .params(z.object({ slug: z.array(z.string()).min(1) }))
+      .handler((request, context) => ({ path: context.params.slug.join('/') }));
+
+    const validResponse = await GET(new Request('http://localhost/'), {
+      params: Promise.resolve({ slug: ['docs', 'getting-started'] }),
+    });
+    expect(await validResponse.json()).toEqual({ path: 'docs/getting-started' });
+
+    const invalidResponse = await GET(new Request('http://localhost/'), { params: Promise.resolve({ slug: [] }) });
+    expect(invalidResponse.status).toBe(400);
+  });
+
+  it('should type params as passed by Next.js without a params schema', () => {
+    createSafeRoute().handler((request, context) => {
+      expectTypeOf(context.params).toEqualTypeOf<RouteParams>();
+    });
+  });
+
+  it('should match the route handler signature checked by Next.js 15', () => {
+    const GET = createSafeRoute()
+      .params(paramsSchema)
+      .handler(() => ({}));
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    type SecondArg<T> = T extends (...args: [any, infer U]) => any ? U : never;
+
+    expectTypeOf<SecondArg<typeof GET>>().toMatchTypeOf<{ params: Promise<Record<string, unknown>> }>();
+    expectTypeOf<ReturnType<typeof GET>>().toEqualTypeOf<Promise<Response>>();
+  });
+});
+
+describe('headers and cookies validation', () => {
+  it('should validate headers with lowercased names', async () => {
+    const GET = createSafeRoute()
+      .headers(z.object({ 'x-api-key': z.string().min(1), 'x-tenant-id': z.coerce.number() }))
+      .handler((request, context) => context.headers);
+
+    const response = await GET(
+      new Request('http://localhost/', { headers: { 'X-Api-Key': 'secret', 'X-Tenant-Id': '42', Accept: '*/*' } }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ 'x-api-key': 'secret', 'x-tenant-id': 42 });
+  });
+
+  it('should return an error for invalid headers', async () => {
+    const GET = createSafeRoute()
+      .headers(z.object({ 'x-api-key': z.string() }))
+      .handler((request, context) => context.headers);
+
+    const response = await GET(new Request('http://localhost/'));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.message).toBe('Invalid headers');
+    expect(data.segment).toBe('headers');
+  });
+
+  it('should validate parsed cookies', async () => {
+    const GET = createSafeRoute()
+      .cookies(z.object({ session: z.string().uuid(), theme: z.enum(['light', 'dark']).default('light') }))
+      .handler((request, context) => context.cookies);
+
+    const response = await GET(
+      new Request('http://localhost/', {
+        headers: { Cookie: 'session=550e8400-e29b-41d4-a716-446655440000; other=%7Bvalue%7D' },
+      }),
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ session: '550e8400-e29b-41d4-a716-446655440000', theme: 'light' });
+  });
+
+  it('should return an error for invalid cookies', async () => {
+    const GET = createSafeRoute()
+      .cookies(z.object({ session: z.string().uuid() }))
+      .handler((request, context) => context.cookies);
+
+    const response = await GET(new Request('http://localhost/', { headers: { Cookie: 'session=invalid' } }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data).toEqual({
+      message: 'Invalid cookies',
+      segment: 'cookies',
+      errors: [{ message: 'Invalid uuid', path: ['session'] }],
+    });
+  });
+
+  it('should expose all headers and cookies as strings without a schema', async () => {
+    const GET = createSafeRoute().handler((request, context) => {
+      expectTypeOf(context.headers).toEqualTypeOf<Record<string, string>>();
+      expectTypeOf(context.cookies).toEqualTypeOf<Record<string, string>>();
+
+      return { accept: context.headers.accept, theme: context.cookies.theme };
+    });
+
+    const response = await GET(
+      new Request('http://localhost/', { headers: { Accept: 'text/html', Cookie: 'theme=dark' } }),
+    );
+
+    expect(await response.json()).toEqual({ accept: 'text/html', theme: 'dark' });
+  });
+});
+
+describe('route groups', () => {
+  const base = createSafeRoute()
+    .params(z.object({ id: z.string() }))
+    .use(async () => ({ user: { id: 'user-1' } }));
+
+  const context = { params: { id: 'item-1' } };
+
+  it('should create a handler per method from the shared builder', async () => {
+    const { GET, POST } = base.methods({
+      GET: (route) => route.handler((request, context) => ({ id: context.params.id, user: context.data.user.id })),
+      POST: (route) =>
+        route
+          .body(z.object({ name: z.string() }))
+          .handler((request, context) => respond({ id: context.params.id, ...context.body }, { status: 201 })),
+    });
+
+    const getResponse = await GET(new Request('http://localhost/items/item-1'), context);
+    expect(getResponse.status).toBe(200);
+    expect(await getResponse.json()).toEqual({ id: 'item-1', user: 'user-1' });
+
+    const postResponse = await POST(
+      new Request('http://localhost/items/item-1', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Item' }),
+      }),
+      context,
+    );
+    expect(postResponse.status).toBe(201);
+    expect(await postResponse.json()).toEqual({ id: 'item-1', name: 'Item' });
+
+    expectTypeOf<InferRouteOutput<typeof GET>>().toEqualTypeOf<{ id: string; user: string }>();
+  });
+
+  it('should respond with a 405 and the allowed methods to methods the group does not define', async () => {
+    const { DELETE, PUT } = base.methods({
+      GET: (route) => route.handler(() => ({})),
+      POST: (route) => route.handler(() => ({})),
+    });
+
+    const response = await DELETE(new Request('http://localhost/items/item-1', { method: 'DELETE' }), context);
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET, HEAD, POST, OPTIONS');
+    expect(await response.json()).toEqual({ message: 'Method not allowed' });
+    expect((await PUT(new Request('http://localhost/', { method: 'PUT' }))).status).toBe(405);
+  });
+
+  it('should generate an OPTIONS handler with the allowed methods', async () => {
+    const { OPTIONS } = base.methods({
+      PUT: (route) => route.handler(() => ({})),
+      DELETE: (route) => route.handler(() => undefined),
+    });
+
+    const response = await OPTIONS(new Request('http://localhost/items/item-1', { method: 'OPTIONS' }), context);
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('Allow')).toBe('PUT, DELETE, OPTIONS');
+  });
+
+  it('should respond to HEAD requests like GET requests without the body', async () => {
+    const { HEAD } = base.methods({
+      GET: (route) => route.handler(() => respond({ id: 'item-1' }, { headers: { 'X-Item-Id': 'item-1' } })),
+    });
+
+    const response = await HEAD(new Request('http://localhost/items/item-1', { method: 'HEAD' }), context);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Item-Id')).toBe('item-1');
+    expect(await response.text()).toBe('');
+  });
+
+  it('should not parse the body of OPTIONS requests', async () => {
+    const { OPTIONS } = base.methods({
+      OPTIONS: (route) => route.handler((request, context) => ({ body: context.body })),
+    });
+
+    const response = await OPTIONS(
+      new Request('http://localhost/items/item-1', { method: 'OPTIONS', body: 'not json' }),
+      context,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ body: {} });
+  });
+});
+
+describe('openapi', () => {
+  const info = { title: 'Items API', version: '1.0.0' };
+
+  it('should generate a document from route modules', () => {
+    const itemRoute = createSafeRoute()
+      .meta({ path: '/items/[id]', tags: ['items'] })
+      .params(z.object({ id: z.string().uuid().describe('The item id') }))
+      .methods({
+        GET: (route) =>
+          route
+            .meta({ operationId: 'getItem', summary: 'Get an item' })
+            .query(z.object({ expand: z.enum(['owner']).optional() }))
+            .response(z.object({ id: z.string(), name: z.string() }))
+            .response(404, z.object({ message: z.string() }))
+            .handler(() => ({ id: '1', name: 'Item' })),
+        PUT: (route) =>
+          route
+            .meta({ operationId: 'updateItem' })
+            .body(z.object({ name: z.string().min(1).max(100) }))
+            .handler(() => undefined),
+      });
+
+    const document = generateOpenApiDocument(new OpenApiRegistry().register(itemRoute), {
+      info,
+      servers: [{ url: 'https://example.com/api' }],
+    });
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info).toEqual(info);
+    expect(document.servers).toEqual([{ url: 'https://example.com/api' }]);
+    expect(Object.keys(document.paths)).toEqual(['/items/{id}']);
+    expect(Object.keys(document.paths['/items/{id}']!)).toEqual(['get', 'put']);
+    expect(document.paths['/items/{id}']!.get).toEqual({
+      operationId: 'getItem',
+      summary: 'Get an item',
+      tags: ['items'],
+      parameters: [
+        {
+          name: 'id',
+          in: 'path',
+          required: true,
+          description: 'The item id',
+          schema: { type: 'string', format: 'uuid' },
+        },
+        { name: 'expand', in: 'query', required: false, schema: { type: 'string', enum: ['owner'] } },
+      ],
+      responses: {
+        '200': {
+          description: 'OK',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { id: { type: 'string' }, name: { type: 'string' } },
+                required: ['id', 'name'],
+              },
+            },
+          },
+        },
+        '404': {
+          description: 'Not Found',
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties: { message: { type: 'string' } }, required: ['message'] },
+            },
+          },
+        },
+        '400': {
+          description: 'Bad Request',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } },
+        },
+        '500': {
+          description: 'Internal Server Error',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+      },
+    });
+    expect(document.paths['/items/{id}']!.put?.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string', minLength: 1, maxLength: 100 } },
+            required: ['name'],
+          },
+        },
+      },
+    });
+    expect(document.paths['/items/{id}']!.put?.responses['200']).toEqual({ description: 'OK' });
+    expect(Object.keys(document.components.schemas)).toEqual(['ValidationError', 'Error']);
+  });
+
+  it('should document route handlers registered on their own', () => {
+    const POST = createSafeRoute()
+      .meta({ path: '/uploads/[...path]', method: 'POST' })
+      .accepts('multipart/form-data')
+      .headers(z.object({ 'x-api-key': z.string() }))
+      .cookies(z.object({ session: z.string().optional() }))
+      .body(z.object({ file: z.instanceof(File) }))
+      .handler(() => respond({ ok: true }, { status: 201 }));
+
+    const document = generateOpenApiDocument(new OpenApiRegistry().register(POST), { info });
+    const operation = document.paths['/uploads/{path}']!.post!;
+
+    expect(operation.parameters).toEqual([
+      { name: 'path', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'x-api-key', in: 'header', required: true, schema: { type: 'string' } },
+      { name: 'session', in: 'cookie', required: false, schema: { type: 'string' } },
+    ]);
+    expect(Object.keys(operation.requestBody!.content)).toEqual(['multipart/form-data']);
+    expect(Object.keys(operation.responses)).toEqual(['200', '400', '415', '500']);
+  });
+
+  it('should document the responses of rate limits, timeouts and idempotency keys', () => {
+    const POST = createSafeRoute()
+      .meta({ path: '/orders', method: 'POST' })
+      .rateLimit({ limit: 10, window: 60_000 })
+      .timeout(5_000)
+      .idempotency({ scope: () => 'client', required: true })
+      .body(z.object({ productId: z.string() }))
+      .handler(() => ({ ok: true }));
+    const GET = createSafeRoute()
+      .meta({ path: '/orders', method: 'GET' })
+      .idempotency({ scope: () => 'client', header: 'X-Request-Id' })
+      .handler(() => []);
+
+    const document = generateOpenApiDocument(new OpenApiRegistry().register(POST, GET), { info });
+    const { post, get } = document.paths['/orders']!;
+    const error = { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } };
+
+    expect(Object.keys(post!.responses)).toEqual(['200', '400', '409', '422', '429', '500', '504']);
+    expect(post!.parameters).toEqual([
+      {
+        name: 'Idempotency-Key',
+        in: 'header',
+        required: true,
+        description: 'A unique key to safely retry the request, whose response is replayed',
+        schema: { type: 'string' },
+      },
+    ]);
+    expect(post!.responses['400']!.content).toEqual({
+      'application/json': {
+        schema: {
+          anyOf: [{ $ref: '#/components/schemas/ValidationError' }, { $ref: '#/components/schemas/Error' }],
+        },
+      },
+    });
+    expect(post!.responses['409']).toEqual({ description: 'Conflict', content: error });
+    expect(post!.responses['422']).toEqual({ description: 'Unprocessable Entity', content: error });
+    expect(post!.responses['429']).toEqual({
+      description: 'Too Many Requests',
+      headers: {
+        'RateLimit-Limit': expect.objectContaining({ schema: { type: 'integer' } }),
+        'RateLimit-Remaining': expect.objectContaining({ schema: { type: 'integer' } }),
+        'RateLimit-Reset': expect.objectContaining({ schema: { type: 'integer' } }),
+        'RateLimit-Policy': expect.objectContaining({ schema: { type: 'string' } }),
+        'Retry-After': expect.objectContaining({ schema: { type: 'integer' } }),
+      },
+      content: error,
+    });
+    expect(post!.responses['504']).toEqual({ description: 'Gateway Timeout', content: error });
+    expect(Object.keys(get!.responses)).toEqual(['200', '409', '422', '500']);
+    expect(get!.parameters).toEqual([expect.objectContaining({ name: 'X-Request-Id', in: 'header', required: false })]);
+  });
+
+  it('should require a path and a method', () => {
+    const withoutMethod = createSafeRoute()
+      .meta({ path: '/items' })
+      .handler(() => []);
+    const withoutPath = createSafeRoute().handler(() => []);
+
+    expect(() => new OpenApiRegistry().register(withoutMethod)).toThrow('need a method');
+    expect(() => generateOpenApiDocument(new OpenApiRegistry().register({ GET: withoutPath }), { info })).toThrow(
+      'Route GET has no path',
+    );
+  });
+
+  it('should convert zod schemas to JSON Schema', () => {
+    expect(
+      zodAdapter().toJsonSchema(
+        z.object({
+          count: z.coerce.number().int().positive().default(1),
+          kind: z.union([z.literal('a'), z.null()]),
+          tags: z.array(z.string().email()).min(1),
+          nested: z.object({ at: z.date().nullable() }).strict().optional(),
+        }),
+      ),
+    ).toEqual({
+      type: 'object',
+      properties: {
+        count: { type: 'integer', exclusiveMinimum: 0, default: 1 },
+        kind: { anyOf: [{ const: 'a' }, { type: 'null' }] },
+        tags: { type: 'array', items: { type: 'string', format: 'email' }, minItems: 1 },
+        nested: {
+          type: 'object',
+          properties: { at: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] } },
+          required: ['at'],
+          additionalProperties: false,
+        },
+      },
+      required: ['kind', 'tags'],
+    });
+  });
+
+  it('should convert valibot schemas to JSON Schema', () => {
+    expect(
+      valibotAdapter().toJsonSchema(
+        v.object({
+          name: v.pipe(v.string(), v.minLength(2), v.description('The name')),
+          age: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0)), 18),
+          role: v.picklist(['admin', 'user']),
+          tags: v.nullable(v.array(v.string())),
+        }),
+      ),
+    ).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, description: 'The name' },
+        age: { type: 'integer', minimum: 0, default: 18 },
+        role: { enum: ['admin', 'user'] },
+        tags: { anyOf: [{ type: 'array', items: { type: 'string' } }, { type: 'null' }] },
+      },
+      required: ['name', 'role', 'tags'],
+    });
+  });
+
+  it('should convert yup schemas to JSON Schema', () => {
+    expect(
+      yupAdapter().toJsonSchema(
+        yup.object({
+          name: yup.string().required().min(2).label('The name'),
+          age: yup.number().integer().max(120),
+          role: yup.string().oneOf(['admin', 'user']).required(),
+          tags: yup.array(yup.string().required()).min(1),
+        }),
+      ),
+    ).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 2, description: 'The name' },
+        age: { type: 'integer', maximum: 120 },
+        role: { type: 'string', enum: ['admin', 'user'] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      },
+      required: ['name', 'role'],
+    });
+  });
+
+  it('should use TypeBox schemas as JSON Schema', () => {
+    expect(
+      typeboxAdapter().toJsonSchema(Type.Object({ id: Type.String(), page: Type.Optional(Type.Integer()) })),
+    ).toEqual({
+      type: 'object',
+      properties: { id: { type: 'string' }, page: { type: 'integer' } },
+      required: ['id'],
+    });
+  });
+});
+
+describe('client', () => {
+  const itemRoute = createSafeRoute()
+    .params(z.object({ id: z.string() }))
+    .methods({
+      GET: (route) =>
+        route
+          .query(z.object({ fields: z.array(z.string()).optional(), page: z.coerce.number().default(1) }), {
+            parser: 'arrays',
+          })
+          .handler((request, context) => ({ id: context.params.id, ...context.query })),
+      PATCH: (route) =>
+        route
+          .body(z.object({ name: z.string().min(1) }))
+          .response(z.object({ id: z.string(), name: z.string() }))
+          .handler((request, context) => ({ id: context.params.id, name: context.body.name })),
+      DELETE: (route) =>
+        route.handler(() => {
+          throw forbidden({ reason: 'locked' });
+        }),
+    });
+  const filesRoute = {
+    GET: createSafeRoute().handler((request, context) => ({ params: context.params })),
+  };
+  const routes = { '/items/[id]': itemRoute, '/files/[[...path]]': filesRoute };
+
+  // Dispatch the requests to the handlers in process
+  const urls: string[] = [];
+  const client = createClient<typeof routes>({
+    baseUrl: 'https://example.com/api',
+    headers: { 'X-Client': 'test' },
+    fetch: async (request) => {
+      urls.push(request.url);
+      const { pathname } = new URL(request.url);
+      const [, , resource, ...rest] = pathname.split('/');
+      if (resource === 'items') {
+        const handler = itemRoute[request.method as 'GET' | 'PATCH' | 'DELETE'];
+        return handler(request, { params: { id: decodeURIComponent(rest[0]!) } });
+      }
+
+      return filesRoute.GET(request, { params: { path: rest.length > 0 ? rest : undefined } });
+    },
+  });
+
+  it('should carry the input and output types of the route', () => {
+    expectTypeOf<InferRouteInput<typeof itemRoute.PATCH>>().toEqualTypeOf<{
+      params: { id: string };
+      query: Record<string, unknown> | undefined;
+      body: { name: string };
+    }>();
+    expectTypeOf<InferRouteOutput<typeof itemRoute.PATCH>>().toEqualTypeOf<{ id: string; name: string }>();
+  });
+
+  it('should build the URL from the params and query', async () => {
+    const { data, error } = await client.GET('/items/[id]', {
+      params: { id: 'a/b' },
+      query: { fields: ['name', 'owner'], page: 2 },
+    });
+
+    expect(error).toBeUndefined();
+    expect(data).toEqual({ id: 'a/b', fields: ['name', 'owner'], page: 2 });
+    expect(urls.at(-1)).toBe('https://example.com/api/items/a%2Fb?fields=name&fields=owner&page=2');
+  });
+
+  it('should serialise the body and return typed data', async () => {
+    const result = await client.PATCH('/items/[id]', { params: { id: '1' }, body: { name: 'Item' } });
+
+    expectTypeOf(result.data).toEqualTypeOf<{ id: string; name: string } | undefined>();
+    expect(result.data).toEqual({ id: '1', name: 'Item' });
+  });
+
+  it('should return validation errors', async () => {
+    const { data, error } = await client.PATCH('/items/[id]', { params: { id: '1' }, body: { name: '' } });
+
+    expect(data).toBeUndefined();
+    expect(error).toEqual({
+      type: 'validation',
+      status: 400,
+      message: 'Invalid body',
+      segment: 'body',
+      errors: [{ message: 'String must contain at least 1 character(s)', path: ['name'] }],
+    });
+  });
+
+  it('should return http errors', async () => {
+    const { error } = await client.DELETE('/items/[id]', { params: { id: '1' } });
+
+    expect(error).toEqual({ type: 'http', status: 403, message: 'Forbidden', details: { reason: 'locked' } });
+  });
+
+  it('should handle optional catch-all params', async () => {
+    const withPath = await client.GET('/files/[[...path]]', { params: { path: ['docs', 'readme.md'] } });
+    expect(urls.at(-1)).toBe('https://example.com/api/files/docs/readme.md');
+    expect(withPath.data).toEqual({ params: { path: ['docs', 'readme.md'] } });
+
+    const withoutPath = await client.GET('/files/[[...path]]');
+    expect(urls.at(-1)).toBe('https://example.com/api/files');
+    expect(withoutPath.data).toEqual({ params: {} });
+  });
+
+  it('should only accept the paths and input of the routes', () => {
+    // @ts-expect-error the route has no POST handler
+    expectTypeOf(client.POST).parameter(0).toEqualTypeOf<'/items/[id]'>();
+    // @ts-expect-error the params are required
+    void client.PATCH('/items/[id]', { body: { name: 'Item' } }).catch(() => undefined);
+  });
+});
+
+describe('testing helpers', () => {
+  const authenticate = async ({ request }: { request: Request }) => {
+    const token = request.headers.get('authorization');
+    if (token !== 'Bearer secret') {
+      throw unauthorized();
+    }
+
+    return { user: { id: 'user-1', role: 'member' } };
+  };
+
+  const POST = createSafeRoute()
+    .meta({ path: '/orgs/[orgId]/items', method: 'POST' })
+    .use(authenticate, { phase: 'beforeParsing' })
+    .params(z.object({ orgId: z.string() }))
+    .query(z.object({ dryRun: z.enum(['true', 'false']).optional() }))
+    .cookies(z.object({ locale: z.string().default('en') }))
+    .body(z.object({ items: z.array(z.object({ name: z.string().min(1) })) }))
+    .handler((request, context) =>
+      respond(
+        {
+          orgId: context.params.orgId,
+          user: context.data.user,
+          locale: context.cookies.locale,
+          dryRun: context.query.dryRun === 'true',
+          url: request.url,
+          count: context.body.items.length,
+        },
+        { status: 201 },
+      ),
+    );
+
+  it('should invoke a route with typed input and parse its response', async () => {
+    const result = await invokeRoute(POST, {
+      params: { orgId: 'org-1' },
+      query: { dryRun: 'true' },
+      body: { items: [{ name: 'Item' }] },
+      headers: { Authorization: 'Bearer secret' },
+      cookies: { locale: 'fr' },
+    });
+
+    expect(result.status).toBe(201);
+    expect(result.error).toBeUndefined();
+    expect(result.data).toEqual({
+      orgId: 'org-1',
+      user: { id: 'user-1', role: 'member' },
+      locale: 'fr',
+      dryRun: true,
+      url: 'http://localhost/orgs/org-1/items?dryRun=true',
+      count: 1,
+    });
+    expectTypeOf(result.data).toEqualTypeOf<
+      | {
+          orgId: string;
+          user: { id: string; role: string };
+          locale: string;
+          dryRun: boolean;
+          url: string;
+          count: number;
+        }
+      | undefined
+    >();
+  });
+
+  it('should override middlewares with a middleware or the context they provide', async () => {
+    const withContext = await invokeRoute(POST, {
+      params: { orgId: 'org-1' },
+      body: { items: [] },
+      middlewares: new Map([[authenticate, { user: { id: 'admin', role: 'admin' } }]]),
+    });
+    expect(withContext.data?.user).toEqual({ id: 'admin', role: 'admin' });
+
+    const withMiddleware = await invokeRoute(POST, {
+      params: { orgId: 'org-1' },
+      body: { items: [] },
+      middlewares: new Map([
+        [
+          authenticate,
+          () => {
+            throw forbidden();
+          },
+        ],
+      ]),
+    });
+    expect(withMiddleware.status).toBe(403);
+    expect(withMiddleware.error).toEqual({ type: 'http', status: 403, message: 'Forbidden' });
+
+    const withoutOverride = await invokeRoute(POST, { params: { orgId: 'org-1' }, body: { items: [] } });
+    expect(withoutOverride.status).toBe(401);
+  });
+
+  it('should only let the testing helpers override middlewares', () => {
+    expect(Symbol.for('next-safe-route.overrideMiddlewares') in POST).toBe(false);
+    expect(Object.getOwnPropertySymbols(POST).map((symbol) => Symbol.keyFor(symbol))).toEqual([
+      'next-safe-route.routeDefinition',
+      undefined,
+    ]);
+  });
+
+  it('should assert validation errors', async () => {
+    const result = await invokeRoute(POST, {
+      params: { orgId: 'org-1' },
+      body: { items: [{ name: '' }] },
+      middlewares: new Map([[authenticate, { user: { id: 'user-1', role: 'member' } }]]),
+    });
+
+    const error = expectValidationError(result, 'body', [['items', 0, 'name']]);
+    expect(error.errors).toHaveLength(1);
+    expect(() => expectValidationError(result, 'query')).toThrow(
+      'Expected a validation error for the query, but got one for the body',
+    );
+    expect(() => expectValidationError(result, 'body', [['items']])).toThrow(
+      'Expected a validation error at items, but got errors at items.0.name',
+    );
+  });
+
+  it('should use the method and path passed to it', async () => {
+    const { GET, DELETE } = createSafeRoute()
+      .params(z.object({ id: z.string() }))
+      .methods({
+        GET: (route) => route.handler((request, context) => ({ method: request.method, id: context.params.id })),
+      });
+
+    const result = await invokeRoute(GET, { path: '/items/[id]', params: { id: '1' } });
+    expect(result.data).toEqual({ method: 'GET', id: '1' });
+
+    const notAllowed = await invokeRoute(DELETE, { method: 'DELETE' });
+    expect(notAllowed.status).toBe(405);
+    expect(() => expectValidationError(notAllowed, 'params')).toThrow(
+      'Expected a validation error, but the route responded with a 405',
+    );
+  });
+});
+
+describe('timeouts and abort signals', () => {
+  it('should respond with a 504 and abort the signal when the route times out', async () => {
+    let handlerSignal: AbortSignal | undefined;
+    const GET = createSafeRoute()
+      .timeout(20)
+      .handler(async (request, context) => {
+        handlerSignal = context.signal;
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return { ok: true };
+      });
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(504);
+    expect(await response.json()).toEqual({ message: 'Gateway timeout' });
+    expect(handlerSignal?.aborted).toBe(true);
+    expect(handlerSignal?.reason).toBeInstanceOf(DOMException);
+    expect(handlerSignal?.reason.name).toBe('TimeoutError');
+  });
+
+  it('should include the middlewares in the timeout', async () => {
+    const handleServerError = vi.fn();
+    const GET = createSafeRoute({ handleServerError })
+      .timeout(20)
+      .use(async ({ signal }) => {
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        return { aborted: signal.aborted };
+      })
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(504);
+    expect(handleServerError).toHaveBeenCalledWith(expect.objectContaining({ status: 504 }), {
+      request: expect.any(Request),
+      category: 'http',
+    });
+  });
+
+  it('should respond normally within the timeout', async () => {
+    const GET = createSafeRoute()
+      .timeout(1000)
+      .handler(async (request, context) => ({ aborted: context.signal.aborted }));
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ aborted: false });
+  });
+
+  it('should abort the signal when the client disconnects', async () => {
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+    const GET = createSafeRoute()
+      .use(
+        ({ signal }) => {
+          signals.push(signal);
+        },
+        { phase: 'beforeParsing' },
+      )
+      .use(({ signal }) => {
+        signals.push(signal);
+      })
+      .handler(async (request, context) => {
+        signals.push(context.signal);
+        controller.abort();
+        return { aborted: context.signal.aborted };
+      });
+
+    const response = await GET(new Request('http://localhost/', { signal: controller.signal }));
+
+    expect(await response.json()).toEqual({ aborted: true });
+    expect(signals).toHaveLength(3);
+    expect(new Set(signals).size).toBe(1);
+  });
+});
+
+describe('lifecycle hooks', () => {
+  const createHooks = () => {
+    const calls: string[] = [];
+    const hooks = {
+      onRequest: vi.fn(() => {
+        calls.push('onRequest');
+      }),
+      onMiddleware: vi.fn(() => {
+        calls.push('onMiddleware');
+      }),
+      onValidationError: vi.fn(() => {
+        calls.push('onValidationError');
+      }),
+      onError: vi.fn(() => {
+        calls.push('onError');
+      }),
+      onResponse: vi.fn(() => {
+        calls.push('onResponse');
+      }),
+    } satisfies RouteHooks;
+
+    return { calls, hooks };
+  };
+
+  it('should call the hooks with the timings of each step', async () => {
+    const { calls, hooks } = createHooks();
+    const POST = createSafeRoute({ hooks })
+      .meta({ path: '/items', operationId: 'createItem' })
+      .use(async function authenticate() {
+        return { user: 'user-1' };
+      })
+      .params(paramsSchema)
+      .body(bodySchema)
+      .handler(() => ({ ok: true }));
+
+    const request = new Request('http://localhost/items', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ field: 'value' }),
+    });
+    const response = await POST(request, { params: { id: '550e8400-e29b-41d4-a716-446655440000' } });
+
+    expect(calls).toEqual(['onRequest', 'onMiddleware', 'onResponse']);
+    const route = { path: '/items', operationId: 'createItem' };
+    expect(hooks.onRequest).toHaveBeenCalledWith({ request, route });
+    expect(hooks.onMiddleware).toHaveBeenCalledWith({
+      request,
+      route,
+      name: 'authenticate',
+      phase: 'afterValidation',
+      index: 0,
+      duration: expect.any(Number),
+      error: undefined,
+    });
+    expect(hooks.onResponse).toHaveBeenCalledWith({
+      request,
+      route,
+      response,
+      duration: expect.any(Number),
+      timings: {
+        parseBody: expect.any(Number),
+        validation: { params: expect.any(Number), body: expect.any(Number) },
+        middlewares: [{ name: 'authenticate', phase: 'afterValidation', duration: expect.any(Number) }],
+        handler: expect.any(Number),
+        total: expect.any(Number),
+      },
+    });
+  });
+
+  it('should call the validation error and error hooks', async () => {
+    const { calls, hooks } = createHooks();
+    const GET = createSafeRoute({ hooks })
+      .query(querySchema)
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(400);
+    expect(calls).toEqual(['onRequest', 'onValidationError', 'onError', 'onResponse']);
+    expect(hooks.onValidationError).toHaveBeenCalledWith(
+      expect.objectContaining({ segment: 'query', error: expect.any(SafeRouteValidationError) }),
+    );
+    expect(hooks.onError).toHaveBeenCalledWith(expect.objectContaining({ category: 'validation' }));
+  });
+
+  it('should report failing middlewares and server errors', async () => {
+    const { hooks } = createHooks();
+    const GET = createSafeRoute({ hooks })
+      .use(
+        () => {
+          throw new Error('Database unavailable');
+        },
+        { phase: 'beforeParsing' },
+      )
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(500);
+    expect(hooks.onMiddleware).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'anonymous', phase: 'beforeParsing', error: new Error('Database unavailable') }),
+    );
+    expect(hooks.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ category: 'server', error: new Error('Database unavailable') }),
+    );
+  });
+
+  it('should not let failing hooks affect the response', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const GET = createSafeRoute({
+      hooks: {
+        onRequest: () => {
+          throw new Error('Hook failed');
+        },
+      },
+    }).handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'));
+
+    expect(response.status).toBe(200);
+    expect(consoleError).toHaveBeenCalledWith('The onRequest hook failed', new Error('Hook failed'));
+    consoleError.mockRestore();
+  });
+
+  it('should trace requests in spans', async () => {
+    // An in-memory tracer that records the spans like an in-memory exporter would
+    const spans: Array<{
+      name: string;
+      options?: Parameters<Tracer['startSpan']>[1];
+      attributes: Record<string, unknown>;
+      events: Array<{ name: string; attributes?: Record<string, unknown> }>;
+      exceptions: Error[];
+      status?: { code: number; message?: string };
+      ended: boolean;
+    }> = [];
+    const tracer: Tracer = {
+      startSpan: (name, options) => {
+        const record = {
+          name,
+          options,
+          attributes: {},
+          events: [] as Array<{ name: string; attributes?: Record<string, unknown> }>,
+          exceptions: [] as Error[],
+          status: undefined as { code: number; message?: string } | undefined,
+          ended: false,
+        };
+        spans.push(record);
+
+        const span: Span = {
+          setAttribute: (key, value) => Object.assign(record.attributes, { [key]: value }),
+          addEvent: (eventName, attributes) => record.events.push({ name: eventName, attributes }),
+          recordException: (exception) => record.exceptions.push(exception),
+          setStatus: (status) => (record.status = status),
+          end: () => (record.ended = true),
+        };
+        return span;
+      },
+    };
+
+    const safeRoute = createSafeRoute({ tracer }).meta({ path: '/items/[id]' });
+    const GET = safeRoute.params(paramsSchema).handler(() => ({ ok: true }));
+    const DELETE = safeRoute.handler(() => {
+      throw new Error('Database unavailable');
+    });
+
+    await GET(new Request('http://localhost/items/invalid'), { params: { id: 'invalid' } });
+    await DELETE(new Request('http://localhost/items/1', { method: 'DELETE' }), { params: { id: '1' } });
+
+    expect(spans).toHaveLength(2);
+    expect(spans[0]).toMatchObject({
+      name: 'GET /items/[id]',
+      options: {
+        kind: 1,
+        attributes: { 'http.request.method': 'GET', 'url.path': '/items/invalid', 'http.route': '/items/[id]' },
+      },
+      attributes: { 'next_safe_route.error.category': 'validation', 'http.response.status_code': 400 },
+      events: [
+        {
+          name: 'validation_error',
+          attributes: { 'next_safe_route.validation.segment': 'params', 'next_safe_route.validation.issue_count': 1 },
+        },
+      ],
+      status: undefined,
+      ended: true,
+    });
+    expect(spans[1]).toMatchObject({
+      name: 'DELETE /items/[id]',
+      attributes: { 'next_safe_route.error.category': 'server', 'http.response.status_code': 500 },
+      exceptions: [new Error('Database unavailable')],
+      status: { code: 2 },
+      ended: true,
+    });
+  });
+});
+
+describe('safe actions', () => {
+  const itemSchema = z.object({
+    name: z.string().min(1),
+    quantity: z.coerce.number().int().positive(),
+  });
+
+  it('should validate the input and return the data of the handler', async () => {
+    const createItem = createSafeAction()
+      .input(itemSchema)
+      .action(async (input) => ({ id: '1', ...input }));
+
+    const result = await createItem({ name: 'Item', quantity: 2 });
+
+    expect(result).toEqual({ data: { id: '1', name: 'Item', quantity: 2 } });
+  });
+
+  it('should accept form data', async () => {
+    const createItem = createSafeAction()
+      .input(itemSchema.extend({ tags: z.array(z.string()) }))
+      .action(async (input) => input);
+
+    const formData = new FormData();
+    formData.append('name', 'Item');
+    formData.append('quantity', '3');
+    formData.append('tags', 'a');
+    formData.append('tags', 'b');
+    const result = await createItem(formData);
+
+    expect(result).toEqual({ data: { name: 'Item', quantity: 3, tags: ['a', 'b'] } });
+  });
+
+  it('should return validation errors without calling the middlewares or the handler', async () => {
+    const middleware = vi.fn();
+    const handler = vi.fn();
+    const createItem = createSafeAction().input(itemSchema).use(middleware).action(handler);
+
+    const result = await createItem({ name: '', quantity: 2 });
+
+    expect(result.validationErrors).toEqual([expect.objectContaining({ path: ['name'] })]);
+    expect(middleware).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should share middlewares with route handlers', async () => {
+    const authenticate = async () => ({ user: { id: 'user-1' } });
+
+    const GET = createSafeRoute()
+      .use(authenticate)
+      .handler((request, context) => ({ userId: context.data.user.id }));
+    const updateProfile = createSafeAction()
+      .use(authenticate)
+      .use(async ({ ctx }) => ({ greeting: `Hello ${ctx.user.id}` }))
+      .action(async (input, context) => ({ userId: context.data.user.id, greeting: context.data.greeting }));
+
+    const response = await GET(new Request('http://localhost/'));
+    const result = await updateProfile(undefined);
+
+    expect(await response.json()).toEqual({ userId: 'user-1' });
+    expect(result).toEqual({ data: { userId: 'user-1', greeting: 'Hello user-1' } });
+  });
+
+  it('should let middlewares wrap the rest of the chain', async () => {
+    const calls: string[] = [];
+    const action = createSafeAction()
+      .use(async ({ next }) => {
+        calls.push('before');
+        const result = await next({ requestId: 'request-1' });
+        calls.push(result.data ? 'success' : 'failure');
+        return undefined;
+      })
+      .action(async (input, context) => {
+        calls.push('handler');
+        return context.data;
+      });
+
+    const result = await action(undefined);
+
+    expect(result).toEqual({ data: { requestId: 'request-1' } });
+    expect(calls).toEqual(['before', 'handler', 'success']);
+  });
+
+  it('should return the message of HTTP errors as the server error', async () => {
+    const handler = vi.fn();
+    const action = createSafeAction()
+      .use(async () => {
+        throw unauthorized();
+      })
+      .action(handler);
+
+    const result = await action(undefined);
+
+    expect(result).toEqual({ serverError: 'Unauthorized' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should hide the message of other errors unless the error handler provides one', async () => {
+    const failingHandler = async () => {
+      throw new Error('Database unavailable');
+    };
+    const handleServerError = vi.fn((error: Error) =>
+      error.message === 'Database unavailable' ? 'Try again' : undefined,
+    );
+
+    const action = createSafeAction().action(failingHandler);
+    const actionWithErrorHandler = createSafeAction({ handleServerError }).action(failingHandler);
+
+    expect(await action(undefined)).toEqual({ serverError: 'Internal server error' });
+    expect(await actionWithErrorHandler(undefined)).toEqual({ serverError: 'Try again' });
+    expect(handleServerError).toHaveBeenCalledWith(new Error('Database unavailable'), { category: 'server' });
+  });
+
+  it('should return validation errors thrown by the handler', async () => {
+    const action = createSafeAction().action(async () => {
+      throw new SafeRouteValidationError('body', [{ message: 'Name is taken', path: ['name'] }]);
+    });
+
+    expect(await action(undefined)).toEqual({ validationErrors: [{ message: 'Name is taken', path: ['name'] }] });
+  });
+
+  it('should rethrow the redirects of Next.js', async () => {
+    const redirectError = Object.assign(new Error('NEXT_REDIRECT'), {
+      digest: 'NEXT_REDIRECT;replace;/items/1;307;',
+    });
+    const handleServerError = vi.fn();
+    const action = createSafeAction({ handleServerError }).action(async () => {
+      throw redirectError;
+    });
+
+    await expect(action(undefined)).rejects.toBe(redirectError);
+    expect(handleServerError).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow the not found errors of Next.js', async () => {
+    const notFoundError = Object.assign(new Error('NEXT_NOT_FOUND'), { digest: 'NEXT_NOT_FOUND' });
+    const action = createSafeAction()
+      .use(async () => {
+        throw notFoundError;
+      })
+      .action(async () => 'Item');
+
+    await expect(action(undefined)).rejects.toBe(notFoundError);
+  });
+
+  it('should validate the input with the validation adapter', async () => {
+    const action = createSafeAction({ validationAdapter: valibotAdapter() })
+      .input(v.object({ name: v.pipe(v.string(), v.minLength(1)) }))
+      .action(async (input) => input.name);
+
+    expect(await action({ name: 'Item' })).toEqual({ data: 'Item' });
+    expect((await action({ name: '' })).validationErrors).toEqual([expect.objectContaining({ path: ['name'] })]);
+  });
+
+  it('should share the middlewares that only use the context with route handlers', async () => {
+    const withUser = async () => ({ user: { id: 'user-1' } });
+    const withToken = async ({ request }: { request: Request }) => ({ token: request.headers.get('authorization') });
+
+    const GET = createSafeRoute()
+      .use(withUser)
+      .use(withToken)
+      .handler((request, context) => context.data.user);
+    const action = createSafeAction()
+      .use(withUser)
+      .action(async (input, context) => context.data.user);
+    // @ts-expect-error Server actions are not called with a request
+    createSafeAction().use(withToken);
+
+    expect(await (await GET(new Request('http://localhost/'))).json()).toEqual({ id: 'user-1' });
+    expect(await action(undefined)).toEqual({ data: { id: 'user-1' } });
+  });
+
+  it('should infer the types of the input and the result', () => {
+    const createItem = createSafeAction()
+      .input(itemSchema)
+      .action(async (input) => {
+        expectTypeOf(input).toEqualTypeOf<{ name: string; quantity: number }>();
+        return { id: '1' };
+      });
+
+    expectTypeOf(createItem).parameter(0).toEqualTypeOf<z.input<typeof itemSchema> | FormData>();
+    expectTypeOf<Awaited<ReturnType<typeof createItem>>['data']>().toEqualTypeOf<{ id: string } | undefined>();
+  });
+});
+
+describe('base builders', () => {
+  const orgRoute = createSafeRoute()
+    .params(z.object({ orgId: z.string() }))
+    .query(z.object({ page: z.coerce.number().default(1) }))
+    .use(async () => ({ user: { id: 'user-1' } }));
+
+  it('should merge the schemas of routes extending a base builder', async () => {
+    const GET = orgRoute
+      .params(z.object({ projectId: z.string() }))
+      .query(z.object({ search: z.string().optional() }))
+      .handler((request, context) => {
+        expectTypeOf(context.params).toEqualTypeOf<{ orgId: string; projectId: string }>();
+        expectTypeOf(context.query).toEqualTypeOf<{ page: number; search?: string | undefined }>();
+
+        return { params: context.params, query: context.query, userId: context.data.user.id };
+      });
+
+    const response = await GET(new Request('http://localhost/?search=test'), {
+      params: { orgId: 'org-1', projectId: 'project-1' },
+    });
+
+    expect(await response.json()).toEqual({
+      params: { orgId: 'org-1', projectId: 'project-1' },
+      query: { page: 1, search: 'test' },
+      userId: 'user-1',
+    });
+  });
+
+  it('should validate the keys of the base schema', async () => {
+    const GET = orgRoute.params(z.object({ projectId: z.string() })).handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'), { params: { projectId: 'project-1' } });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([expect.objectContaining({ path: ['orgId'] })]);
+  });
+
+  it('should let the extension override the keys of the base schema', async () => {
+    const POST = createSafeRoute()
+      .body(z.object({ name: z.string(), quantity: z.number() }))
+      .body(z.object({ quantity: z.string() }))
+      .handler((request, context) => {
+        expectTypeOf(context.body).toEqualTypeOf<{ name: string; quantity: string }>();
+        return context.body;
+      });
+
+    const response = await POST(
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Item', quantity: 'two' }),
+      }),
+    );
+
+    expect(await response.json()).toEqual({ name: 'Item', quantity: 'two' });
+  });
+
+  it('should merge schemas with every adapter', async () => {
+    const headers = { 'Content-Type': 'application/json' };
+    const body = JSON.stringify({ name: 'Item', quantity: 2 });
+    const routes = [
+      createSafeRoute({ validationAdapter: valibotAdapter() })
+        .body(v.object({ name: v.string() }))
+        .body(v.object({ quantity: v.number() })),
+      createSafeRoute({ validationAdapter: yupAdapter() })
+        .body(yup.object({ name: yup.string().required() }))
+        .body(yup.object({ quantity: yup.number().required() })),
+      createSafeRoute({ validationAdapter: typeboxAdapter() })
+        .body(Type.Object({ name: Type.String() }))
+        .body(Type.Object({ quantity: Type.Number() })),
+    ];
+
+    for (const route of routes) {
+      const POST = route.handler((request, context) => context.body);
+      const response = await POST(new Request('http://localhost/', { method: 'POST', headers, body }));
+      const invalidResponse = await POST(
+        new Request('http://localhost/', { method: 'POST', headers, body: JSON.stringify({ name: 'Item' }) }),
+      );
+
+      expect(await response.json()).toEqual({ name: 'Item', quantity: 2 });
+      expect(invalidResponse.status).toBe(400);
+    }
+  });
+
+  it('should merge sync and async valibot schemas', async () => {
+    const isAvailable = vi.fn(async (name: string) => name !== 'Taken');
+    const POST = createSafeRoute({ validationAdapter: valibotAdapter() })
+      .body(v.strictObject({ quantity: v.number() }))
+      .body(v.objectAsync({ name: v.pipeAsync(v.string(), v.checkAsync(isAvailable, 'Name is taken')) }))
+      .handler((request, context) => context.body);
+    const request = (body: unknown) =>
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+
+    const response = await POST(request({ name: 'Item', quantity: 2 }));
+    const takenResponse = await POST(request({ name: 'Taken', quantity: 2 }));
+    const unknownKeyResponse = await POST(request({ name: 'Item', quantity: 2, color: 'red' }));
+
+    expect(await response.json()).toEqual({ name: 'Item', quantity: 2 });
+    expect(takenResponse.status).toBe(400);
+    expect(await takenResponse.text()).toContain('Name is taken');
+    expect(unknownKeyResponse.status).toBe(400);
+    expect(isAvailable).toHaveBeenCalledWith('Taken');
+  });
+
+  it('should throw when merging schemas that are not objects', () => {
+    expect(() => createSafeRoute().body(z.array(z.string())).body(z.object({}))).toThrow(
+      'Only object schemas can be merged',
+    );
+    expect(() =>
+      createSafeRoute({ validationAdapter: { validate: zodAdapter().validate } as ValidationAdapter })
+        .body(z.object({}))
+        .body(z.object({})),
+    ).toThrow('The validation adapter does not support merging schemas');
+  });
+
+  it('should call the server error handlers from the last one added', async () => {
+    const calls: string[] = [];
+    const baseRoute = createSafeRoute({
+      handleServerError: () => {
+        calls.push('createSafeRoute');
+        return Response.json({ message: 'Base' }, { status: 500 });
+      },
+    }).handleServerError(() => {
+      calls.push('base');
+    });
+    const handler = () => {
+      throw new Error('Database unavailable');
+    };
+
+    const GET = baseRoute.handler(handler);
+    const POST = baseRoute
+      .handleServerError((error) => {
+        calls.push('route');
+        return Response.json({ message: error.message }, { status: 503 });
+      })
+      .handler(handler);
+
+    const getResponse = await GET(new Request('http://localhost/'));
+    const postResponse = await POST(new Request('http://localhost/', { method: 'POST' }));
+
+    expect(await getResponse.json()).toEqual({ message: 'Base' });
+    expect(postResponse.status).toBe(503);
+    expect(calls).toEqual(['base', 'createSafeRoute', 'route']);
+  });
+});
+
+describe('cors', () => {
+  const origin = 'https://app.example.com';
+  const corsRoute = createSafeRoute().cors({
+    origin: [origin],
+    credentials: true,
+    exposedHeaders: ['X-Request-Id'],
+    maxAge: 600,
+  });
+
+  it('should add the CORS headers to the responses of allowed origins', async () => {
+    const GET = corsRoute.handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/', { headers: { Origin: origin } }));
+
+    expect(response.headers.get('access-control-allow-origin')).toBe(origin);
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(response.headers.get('access-control-expose-headers')).toBe('X-Request-Id');
+    expect(response.headers.get('vary')).toBe('Origin');
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it('should not allow other origins', async () => {
+    const GET = corsRoute.handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/', { headers: { Origin: 'https://evil.example.com' } }));
+
+    expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    expect(response.headers.get('vary')).toBe('Origin');
+  });
+
+  it('should add the CORS headers to error responses', async () => {
+    const GET = corsRoute.query(querySchema).handler(() => ({ ok: true }));
+    const DELETE = corsRoute.handler(() => {
+      throw forbidden();
+    });
+
+    const validationResponse = await GET(new Request('http://localhost/', { headers: { Origin: origin } }));
+    const errorResponse = await DELETE(
+      new Request('http://localhost/', { method: 'DELETE', headers: { Origin: origin } }),
+    );
+
+    expect(validationResponse.status).toBe(400);
+    expect(validationResponse.headers.get('access-control-allow-origin')).toBe(origin);
+    expect(errorResponse.status).toBe(403);
+    expect(errorResponse.headers.get('access-control-allow-origin')).toBe(origin);
+  });
+
+  it('should keep the headers of the response', async () => {
+    const GET = corsRoute.handler(
+      () => new Response('ok', { headers: { Vary: 'Accept-Encoding', 'X-Request-Id': '1' } }),
+    );
+
+    const response = await GET(new Request('http://localhost/', { headers: { Origin: origin } }));
+
+    expect(response.headers.get('vary')).toBe('Accept-Encoding, Origin');
+    expect(response.headers.get('x-request-id')).toBe('1');
+  });
+
+  it('should allow any origin', async () => {
+    const GET = createSafeRoute()
+      .cors({ origin: '*' })
+      .handler(() => ({ ok: true }));
+    const GETWithCredentials = createSafeRoute()
+      .cors({ origin: '*', credentials: true })
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/', { headers: { Origin: origin } }));
+    const responseWithCredentials = await GETWithCredentials(
+      new Request('http://localhost/', { headers: { Origin: origin } }),
+    );
+
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(response.headers.get('vary')).toBeNull();
+    expect(responseWithCredentials.headers.get('access-control-allow-origin')).toBe(origin);
+  });
+
+  it('should decide with a predicate', async () => {
+    const GET = createSafeRoute()
+      .cors({ origin: (requestOrigin) => requestOrigin.endsWith('.example.com') })
+      .handler(() => ({ ok: true }));
+
+    const allowedResponse = await GET(new Request('http://localhost/', { headers: { Origin: origin } }));
+    const deniedResponse = await GET(new Request('http://localhost/', { headers: { Origin: 'https://other.com' } }));
+
+    expect(allowedResponse.headers.get('access-control-allow-origin')).toBe(origin);
+    expect(deniedResponse.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('should respond to preflight requests', async () => {
+    const OPTIONS = corsRoute.preflight();
+
+    const response = await OPTIONS(
+      new Request('http://localhost/', {
+        method: 'OPTIONS',
+        headers: {
+          Origin: origin,
+          'Access-Control-Request-Method': 'POST',
+          'Access-Control-Request-Headers': 'content-type, authorization',
+        },
+      }),
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe(origin);
+    expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+    expect(response.headers.get('access-control-allow-methods')).toBe('GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS');
+    expect(response.headers.get('access-control-allow-headers')).toBe('content-type, authorization');
+    expect(response.headers.get('access-control-max-age')).toBe('600');
+    expect(response.headers.get('vary')).toBe('Origin, Access-Control-Request-Headers');
+    expect(() => createSafeRoute().preflight()).toThrow('CORS');
+  });
+
+  it('should allow the method in the metadata of the route in preflight responses', async () => {
+    const OPTIONS = corsRoute.meta({ method: 'POST' }).preflight();
+
+    const response = await OPTIONS(
+      new Request('http://localhost/', {
+        method: 'OPTIONS',
+        headers: { Origin: origin, 'Access-Control-Request-Method': 'POST' },
+      }),
+    );
+
+    expect(response.headers.get('access-control-allow-methods')).toBe('POST');
+  });
+
+  it('should respond to preflight requests of route groups with their methods', async () => {
+    const { OPTIONS, PUT } = createSafeRoute()
+      .cors({ origin, allowedHeaders: ['Content-Type'] })
+      .methods({
+        GET: (route) => route.handler(() => ({ ok: true })),
+        POST: (route) => route.handler(() => ({ ok: true })),
+      });
+    const headers = { Origin: origin, 'Access-Control-Request-Method': 'POST' };
+
+    const preflightResponse = await OPTIONS(new Request('http://localhost/', { method: 'OPTIONS', headers }));
+    const methodNotAllowedResponse = await PUT(new Request('http://localhost/', { method: 'PUT', headers }));
+
+    expect(preflightResponse.headers.get('allow')).toBe('GET, HEAD, POST, OPTIONS');
+    expect(preflightResponse.headers.get('access-control-allow-methods')).toBe('GET, HEAD, POST, OPTIONS');
+    expect(preflightResponse.headers.get('access-control-allow-headers')).toBe('Content-Type');
+    expect(methodNotAllowedResponse.status).toBe(405);
+    expect(methodNotAllowedResponse.headers.get('access-control-allow-origin')).toBe(origin);
+  });
+});
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // The proxy appends the address of the client to the addresses sent by the client
+  const requestFrom = (ip: string, init?: RequestInit) =>
+    new Request('http://localhost/', { ...init, headers: { 'X-Forwarded-For': `10.0.0.1, ${ip}`, ...init?.headers } });
+
+  it('should limit the requests of each IP address in a fixed window', async () => {
+    const handler = vi.fn(() => ({ ok: true }));
+    const GET = createSafeRoute().rateLimit({ limit: 2, window: 60_000 }).handler(handler);
+
+    const firstResponse = await GET(requestFrom('1.1.1.1'));
+    const secondResponse = await GET(requestFrom('1.1.1.1'));
+    vi.advanceTimersByTime(15_000);
+    const limitedResponse = await GET(requestFrom('1.1.1.1'));
+    const otherClientResponse = await GET(requestFrom('2.2.2.2'));
+
+    expect(firstResponse.headers.get('ratelimit-limit')).toBe('2');
+    expect(firstResponse.headers.get('ratelimit-remaining')).toBe('1');
+    expect(firstResponse.headers.get('ratelimit-reset')).toBe('60');
+    expect(firstResponse.headers.get('ratelimit-policy')).toBe('2;w=60');
+    expect(secondResponse.headers.get('ratelimit-remaining')).toBe('0');
+    expect(limitedResponse.status).toBe(429);
+    expect(await limitedResponse.json()).toEqual({ message: 'Too many requests' });
+    expect(limitedResponse.headers.get('retry-after')).toBe('45');
+    expect(limitedResponse.headers.get('ratelimit-reset')).toBe('45');
+    expect(otherClientResponse.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(45_000);
+    expect((await GET(requestFrom('1.1.1.1'))).status).toBe(200);
+  });
+
+  it('should ignore the addresses sent by the client in X-Forwarded-For', async () => {
+    const GET = createSafeRoute()
+      .rateLimit({ limit: 1, window: 60_000 })
+      .handler(() => ({ ok: true }));
+    const request = (spoofedIp: string) =>
+      new Request('http://localhost/', { headers: { 'X-Forwarded-For': `${spoofedIp}, 1.2.3.4` } });
+
+    expect((await GET(request('10.0.0.1'))).status).toBe(200);
+    expect((await GET(request('10.0.0.2'))).status).toBe(429);
+    expect((await GET(request('10.0.0.3'))).status).toBe(429);
+  });
+
+  it('should get the IP address from the platform header or the trusted proxies', async () => {
+    const store = new MemoryRateLimitStore();
+    const update = vi.spyOn(store, 'update');
+    const GET = createSafeRoute()
+      .rateLimit({ limit: 10, window: 60_000, store })
+      .handler(() => ({ ok: true }));
+    const GETWithIpHeader = createSafeRoute()
+      .rateLimit({ limit: 10, window: 60_000, store, ipHeader: 'x-real-ip' })
+      .handler(() => ({ ok: true }));
+    const GETBehindTwoProxies = createSafeRoute()
+      .rateLimit({ limit: 10, window: 60_000, store, trustedProxies: 2 })
+      .handler(() => ({ ok: true }));
+    const headers = { 'X-Real-IP': '1.1.1.1', 'X-Forwarded-For': '2.2.2.2' };
+
+    await GET(new Request('http://localhost/', { headers }));
+    await GETWithIpHeader(new Request('http://localhost/', { headers }));
+    await GETBehindTwoProxies(
+      new Request('http://localhost/', { headers: { 'X-Forwarded-For': '10.0.0.1, 3.3.3.3, 192.168.0.1' } }),
+    );
+    await GETBehindTwoProxies(new Request('http://localhost/', { headers: { 'X-Forwarded-For': '4.4.4.4' } }));
+
+    expect(update.mock.calls.map(([key]) => key)).toEqual([
+      'rate-limit:ip:2.2.2.2',
+      'rate-limit:ip:1.1.1.1',
+      'rate-limit:ip:3.3.3.3',
+    ]);
+  });
+
+  it('should ignore the X-Real-IP header sent by the client', async () => {
+    const store = new MemoryRateLimitStore();
+    const update = vi.spyOn(store, 'update');
+    const GET = createSafeRoute()
+      .rateLimit({ limit: 1, window: 60_000 })
+      .handler(() => ({ ok: true }));
+    const GETWithoutProxy = createSafeRoute()
+      .rateLimit({ limit: 1, window: 60_000, store, trustedProxies: 0 })
+      .handler(() => ({ ok: true }));
+    const request = (spoofedIp: string) =>
+      new Request('http://localhost/', { headers: { 'X-Real-IP': spoofedIp, 'X-Forwarded-For': '1.2.3.4' } });
+
+    expect((await GET(request('1.1.1.0'))).status).toBe(200);
+    expect((await GET(request('1.1.1.1'))).status).toBe(429);
+    expect((await GET(request('1.1.1.2'))).status).toBe(429);
+
+    // Without a trusted proxy, the requests have no IP address rather than the one sent by the client
+    await GETWithoutProxy(request('1.1.1.0'));
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should not limit the requests without an IP address', async () => {
+    const GET = createSafeRoute()
+      .rateLimit({ limit: 1, window: 60_000 })
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(new Request('http://localhost/'));
+    const secondResponse = await GET(new Request('http://localhost/'));
+
+    expect(secondResponse.status).toBe(200);
+    expect(response.headers.get('ratelimit-limit')).toBeNull();
+    expect((await GET(requestFrom('1.1.1.1'))).status).toBe(200);
+    expect((await GET(requestFrom('1.1.1.1'))).status).toBe(429);
+  });
+
+  it('should refill the bucket over time with the token bucket algorithm', async () => {
+    const GET = createSafeRoute()
+      .rateLimit({ limit: 3, window: 3_000, algorithm: 'token-bucket', key: { header: 'X-Api-Key' } })
+      .handler(() => ({ ok: true }));
+    const request = () => new Request('http://localhost/', { headers: { 'X-Api-Key': 'key-1' } });
+
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await GET(request())).status);
+    }
+    const limitedResponse = await GET(request());
+    vi.advanceTimersByTime(1_000);
+    const refilledResponse = await GET(request());
+
+    expect(statuses).toEqual([200, 200, 200, 429]);
+    expect(limitedResponse.headers.get('retry-after')).toBe('1');
+    expect(refilledResponse.status).toBe(200);
+    expect(refilledResponse.headers.get('ratelimit-remaining')).toBe('0');
+  });
+
+  it('should key the requests with a function of the validated input and the context', async () => {
+    const handler = vi.fn(() => ({ ok: true }));
+    const POST = createSafeRoute()
+      .body(z.object({ email: z.string().email() }))
+      .use(async () => ({ tenant: 'tenant-1' }))
+      .rateLimit({ limit: 1, window: 60_000, key: ({ body, ctx }) => `${ctx.tenant}:${body.email}` })
+      .handler(handler);
+    const request = (email: string) =>
+      new Request('http://localhost/', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+    expect((await POST(request('a@example.com'))).status).toBe(200);
+    expect((await POST(request('a@example.com'))).status).toBe(429);
+    expect((await POST(request('b@example.com'))).status).toBe(200);
+    expect((await POST(request('invalid'))).status).toBe(400);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should describe the most restrictive rate limit', async () => {
+    const GET = createSafeRoute()
+      .rateLimit({ limit: 10, window: 60_000 })
+      .rateLimit({ limit: 2, window: 1_000, prefix: 'burst' })
+      .handler(() => ({ ok: true }));
+
+    const response = await GET(requestFrom('1.1.1.1'));
+
+    expect(response.headers.get('ratelimit-limit')).toBe('2');
+    expect(response.headers.get('ratelimit-remaining')).toBe('1');
+  });
+
+  it('should keep the state in the store', async () => {
+    const store = new MemoryRateLimitStore();
+    const updates: string[] = [];
+    const trackingStore: RateLimitStore = {
+      update: (key, ttl, update) => {
+        updates.push(`${key} ${ttl}`);
+        return store.update(key, ttl, update);
+      },
+    };
+
+    // Routes sharing a store and a prefix share their rate limit
+    const rateLimit = { limit: 1, window: 60_000, store: trackingStore, prefix: 'items' };
+    const GET = createSafeRoute()
+      .rateLimit(rateLimit)
+      .handler(() => ({ ok: true }));
+    const POST = createSafeRoute()
+      .rateLimit(rateLimit)
+      .handler(() => ({ ok: true }));
+
+    expect((await GET(requestFrom('1.1.1.1'))).status).toBe(200);
+    expect((await POST(requestFrom('1.1.1.1', { method: 'POST' }))).status).toBe(429);
+    expect(updates).toEqual(['items:ip:1.1.1.1 60000', 'items:ip:1.1.1.1 60000']);
+  });
+
+  it('should let the server error handler customise rate limited responses', async () => {
+    const GET = createSafeRoute({
+      handleServerError: (error) => {
+        if (error instanceof HttpError && error.status === 429) {
+          return Response.json({ message: 'Slow down' }, { status: 429, headers: error.headers });
+        }
+      },
+    })
+      .rateLimit({ limit: 1, window: 60_000 })
+      .handler(() => ({ ok: true }));
+
+    await GET(requestFrom('1.1.1.1'));
+    const response = await GET(requestFrom('1.1.1.1'));
+
+    expect(await response.json()).toEqual({ message: 'Slow down' });
+    expect(response.headers.get('retry-after')).toBe('60');
+  });
+});
+
+describe('idempotency', () => {
+  const orderSchema = z.object({ productId: z.string(), quantity: z.number() });
+  const scope = () => 'client-1';
+  const createOrderRequest = (body: unknown, key?: string) =>
+    new Request('http://localhost/orders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(key && { 'Idempotency-Key': key }) },
+      body: JSON.stringify(body),
+    });
+
+  it('should replay the response of the first request with the same key', async () => {
+    let orderId = 0;
+    const handler = vi.fn(() =>
+      respond({ id: ++orderId }, { status: 201, headers: { 'X-Order-Id': String(orderId) } }),
+    );
+    const POST = createSafeRoute().idempotency({ scope }).body(orderSchema).handler(handler);
+
+    const response = await POST(createOrderRequest({ productId: 'p1', quantity: 1 }, 'key-1'));
+    const replayedResponse = await POST(createOrderRequest({ quantity: 1, productId: 'p1' }, 'key-1'));
+    const otherResponse = await POST(createOrderRequest({ productId: 'p1', quantity: 1 }, 'key-2'));
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get('idempotent-replayed')).toBeNull();
+    expect(await response.json()).toEqual({ id: 1 });
+    expect(replayedResponse.status).toBe(201);
+    expect(replayedResponse.headers.get('idempotent-replayed')).toBe('true');
+    expect(replayedResponse.headers.get('x-order-id')).toBe(response.headers.get('x-order-id'));
+    expect(await replayedResponse.json()).toEqual({ id: 1 });
+    expect(await otherResponse.json()).toEqual({ id: 2 });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should handle requests without a key unless it is required', async () => {
+    const handler = vi.fn(() => ({ ok: true }));
+    const POST = createSafeRoute().idempotency({ scope }).body(orderSchema).handler(handler);
+    const POSTWithRequiredKey = createSafeRoute()
+      .idempotency({ scope, required: true })
+      .body(orderSchema)
+      .handler(handler);
+    const order = { productId: 'p1', quantity: 1 };
+
+    await POST(createOrderRequest(order));
+    await POST(createOrderRequest(order));
+    const response = await POSTWithRequiredKey(createOrderRequest(order));
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ message: 'The Idempotency-Key header is required' });
+  });
+
+  it('should reject a key reused with a different body', async () => {
+    const POST = createSafeRoute()
+      .idempotency({ scope })
+      .body(orderSchema)
+      .handler(() => ({ ok: true }));
+
+    await POST(createOrderRequest({ productId: 'p1', quantity: 1 }, 'key-1'));
+    const response = await POST(createOrderRequest({ productId: 'p1', quantity: 2 }, 'key-1'));
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({ message: 'The Idempotency-Key was used with a different request body' });
+  });
+
+  it('should reject concurrent requests with the same key', async () => {
+    let complete: (() => void) | undefined;
+    const POST = createSafeRoute()
+      .idempotency({ scope })
+      .body(orderSchema)
+      .handler(async () => {
+        await new Promise<void>((resolve) => (complete = resolve));
+        return { ok: true };
+      });
+    const order = { productId: 'p1', quantity: 1 };
+
+    const firstResponse = POST(createOrderRequest(order, 'key-1'));
+    await vi.waitFor(() => expect(complete).toBeDefined());
+    const concurrentResponse = await POST(createOrderRequest(order, 'key-1'));
+    complete!();
+
+    expect(concurrentResponse.status).toBe(409);
+    expect(await concurrentResponse.json()).toEqual({
+      message: 'A request with the same Idempotency-Key is in progress',
+    });
+    expect((await firstResponse).status).toBe(200);
+  });
+
+  it('should let requests that failed with a server error be retried', async () => {
+    const handler = vi
+      .fn()
+      .mockImplementationOnce(() => {
+        throw new Error('Database unavailable');
+      })
+      .mockImplementationOnce(() => Response.json({ message: 'Unavailable' }, { status: 503 }))
+      .mockImplementation(() => ({ ok: true }));
+    const POST = createSafeRoute().idempotency({ scope }).body(orderSchema).handler(handler);
+    const order = { productId: 'p1', quantity: 1 };
+
+    expect((await POST(createOrderRequest(order, 'key-1'))).status).toBe(500);
+    expect((await POST(createOrderRequest(order, 'key-1'))).status).toBe(503);
+    expect((await POST(createOrderRequest(order, 'key-1'))).status).toBe(200);
+    expect((await POST(createOrderRequest(order, 'key-1'))).headers.get('idempotent-replayed')).toBe('true');
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('should scope the keys to the client', async () => {
+    const users: Record<string, string> = { 'token-alice': 'alice', 'token-bob': 'bob' };
+    const handler = vi.fn((request: Request, context: { data: { user: string } }) => ({ owner: context.data.user }));
+    const POST = createSafeRoute()
+      .use(async ({ request }) => ({ user: users[request.headers.get('authorization') ?? ''] ?? 'anonymous' }))
+      .idempotency({ scope: ({ ctx }) => ctx.user })
+      .body(orderSchema)
+      .handler(handler);
+    const order = { productId: 'p1', quantity: 1 };
+    const requestFrom = (token: string) => {
+      const request = createOrderRequest(order, 'order-1');
+      request.headers.set('Authorization', token);
+      return request;
+    };
+
+    const aliceResponse = await POST(requestFrom('token-alice'));
+    const bobResponse = await POST(requestFrom('token-bob'));
+    const aliceRetryResponse = await POST(requestFrom('token-alice'));
+
+    expect(await aliceResponse.json()).toEqual({ owner: 'alice' });
+    expect(bobResponse.headers.get('idempotent-replayed')).toBeNull();
+    expect(await bobResponse.json()).toEqual({ owner: 'bob' });
+    expect(aliceRetryResponse.headers.get('idempotent-replayed')).toBe('true');
+    expect(await aliceRetryResponse.json()).toEqual({ owner: 'alice' });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fingerprint the content of uploaded files', async () => {
+    const handler = vi.fn(() => ({ ok: true }));
+    const POST = createSafeRoute()
+      .idempotency({ scope })
+      .body(z.object({ file: z.instanceof(File) }))
+      .handler(handler);
+    const upload = (content: string) => {
+      const formData = new FormData();
+      formData.append('file', new File([content], 'report.txt', { type: 'text/plain' }));
+      return new Request('http://localhost/uploads', {
+        method: 'POST',
+        headers: { 'Idempotency-Key': 'upload-1' },
+        body: formData,
+      });
+    };
+
+    const response = await POST(upload('first'));
+    const replayedResponse = await POST(upload('first'));
+    const differentFileResponse = await POST(upload('second'));
+
+    expect(response.status).toBe(200);
+    expect(replayedResponse.headers.get('idempotent-replayed')).toBe('true');
+    expect(differentFileResponse.status).toBe(422);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not replay responses for a different query string', async () => {
+    const handler = vi.fn((request: Request, context: { query: { dryRun?: string } }) => ({
+      dryRun: context.query.dryRun === 'true',
+    }));
+    const POST = createSafeRoute()
+      .idempotency({ scope })
+      .query(z.object({ dryRun: z.string().optional() }))
+      .body(orderSchema)
+      .handler(handler);
+    const order = { productId: 'p1', quantity: 1 };
+    const request = (url: string) =>
+      new Request(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'key-1' },
+        body: JSON.stringify(order),
+      });
+
+    const dryRunResponse = await POST(request('http://localhost/orders?dryRun=true'));
+    const response = await POST(request('http://localhost/orders'));
+
+    expect(await dryRunResponse.json()).toEqual({ dryRun: true });
+    expect(response.headers.get('idempotent-replayed')).toBeNull();
+    expect(await response.json()).toEqual({ dryRun: false });
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should never replay the cookies set by the first response', async () => {
+    const POST = createSafeRoute()
+      .idempotency({ scope })
+      .body(orderSchema)
+      .handler(() => respond({ ok: true }, { headers: { 'Set-Cookie': 'session=alice', 'X-Order-Id': '1' } }));
+
+    const response = await POST(createOrderRequest({ productId: 'p1', quantity: 1 }, 'key-1'));
+    const replayedResponse = await POST(createOrderRequest({ productId: 'p1', quantity: 1 }, 'key-1'));
+
+    expect(response.headers.get('set-cookie')).toBe('session=alice');
+    expect(replayedResponse.headers.get('idempotent-replayed')).toBe('true');
+    expect(replayedResponse.headers.get('x-order-id')).toBe('1');
+    expect(replayedResponse.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('should keep the responses in the store', async () => {
+    const store = new MemoryIdempotencyStore();
+    const POST = createSafeRoute()
+      .idempotency({ scope, store, ttl: 60_000, prefix: 'orders' })
+      .body(orderSchema)
+      .handler(() => ({ ok: true }));
+
+    await POST(createOrderRequest({ productId: 'p1', quantity: 1 }, 'key-1'));
+
+    expect(await store.get('orders:client-1:POST /orders:key-1')).toEqual({
+      status: 'completed',
+      fingerprint: expect.stringMatching(/^[0-9a-f]{64}$/),
+      response: {
+        status: 200,
+        statusText: '',
+        headers: [['content-type', 'application/json']],
+        body: btoa(JSON.stringify({ ok: true })),
+      },
+    });
+  });
+});
@@ -1,161 +1,1092 @@
-import { Infer, Schema, ValidationAdapter } from './adapters/types';
+import { Infer, InferIn, MergedSchema, Schema, ValidationAdapter } from './adapters/types';
 import { zodAdapter } from './adapters/zod';
-import { HandlerFunction, HandlerServerErrorFn, OriginalRouteHandler } from './types';
+import { httpMethods, overrideMiddlewaresSymbol, routeDefinitionSymbol } from './constants';
+import { CorsOptions, createPreflightResponse, withCorsHeaders } from './cors';
+import {
+  HttpError,
+  ResponseValidationError,
+  SafeRouteValidationError,
+  ValidationSegment,
+  defaultFormatValidationError,
+  gatewayTimeout,
+  methodNotAllowed,
+  tooManyRequests,
+  unsupportedMediaType,
+} from './errors';
+import { RouteEvent, RouteHooks, RouteTimings } from './hooks';
+import { IdempotencyOptions, IdempotencyStore, MemoryIdempotencyStore, handleIdempotently } from './idempotency';
+import { parseCookies } from './parseCookies';
+import { QueryParser, parseQuery } from './parseQuery';
+import { isContentTypeAccepted, parseRequestBody } from './parseRequestBody';
+import {
+  MemoryRateLimitStore,
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitStore,
+  consumeRateLimit,
+  getRateLimitHeaders,
+  getRateLimitKey,
+} from './rateLimit';
+import { toResponse } from './respond';
+import {
+  BeforeParsingMiddlewareFunction,
+  FormatValidationErrorFn,
+  HandlerFunction,
+  HandlerOutput,
+  HandlerReturnType,
+  HandlerServerErrorFn,
+  HttpMethod,
+  MethodHandlers,
+  MethodRouteHandlers,
+  MiddlewareContext,
+  MiddlewareFunction,
+  MiddlewareNextFn,
+  MiddlewareOverrides,
+  MiddlewarePhase,
+  MiddlewareReturnType,
+  OriginalRouteHandler,
+  ResponseValidationMode,
+  RouteContext,
+  RouteDefinition,
+  RouteMeta,
+  RouteParams,
+  SafeRouteHandler,
+} from './types';
 
-type Middleware<T = Record<string, unknown>> = (request: Request) => Promise<T>;
+/* eslint-disable @typescript-eslint/no-explicit-any */
+type Middleware = MiddlewareFunction<any, any, any, any, MiddlewareReturnType, any, any>;
+type BeforeParsingMiddleware = BeforeParsingMiddlewareFunction<any, MiddlewareReturnType>;
+type RateLimit = { options: RateLimitOptions<any>; store: RateLimitStore };
+type Idempotency = { options: IdempotencyOptions<any>; store: IdempotencyStore };
+/* eslint-enable @typescript-eslint/no-explicit-any */
+
+/**
+ * Get the middleware to run in place of a middleware, from the overrides passed by the testing helpers
+ * @param middleware - The middleware added with `use`
+ * @param overrides - The overrides of the middlewares
+ * @returns The override, a middleware returning the overridden context, or the middleware itself
+ */
+function overrideMiddleware<T extends Middleware | BeforeParsingMiddleware>(
+  middleware: T,
+  overrides: MiddlewareOverrides,
+) {
+  const override = overrides.get(middleware);
+  if (override === undefined) {
+    return middleware;
+  }
+
+  return (typeof override === 'function' ? override : () => override) as T;
+}
+
+// Routes without a params schema receive the params as passed by Next.js
+type InferParams<T extends Schema> = Schema extends T ? RouteParams : Infer<T>;
+
+// Callers of routes without a schema for a segment may send anything for it
+type InferInput<T extends Schema, TDefault> = Schema extends T ? TDefault : InferIn<T>;
+
+// Routes without a headers or cookies schema receive all of them as strings
+type InferStringRecord<T extends Schema> = Schema extends T ? Record<string, string> : Infer<T>;
+
+// Defining a schema for a segment that already has one merges them
+type MergeSchemas<TBase extends Schema, T extends Schema> = Schema extends TBase ? T : MergedSchema<TBase, T>;
 
 export class RouteHandlerBuilder<
   TParams extends Schema = Schema,
   TQuery extends Schema = Schema,
   TBody extends Schema = Schema,
   TContext extends Record<string, unknown> = Record<string, unknown>,
+  TResponse extends Schema = never,
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  TPreContext extends Record<string, unknown> = {},
+  THeaders extends Schema = Schema,
+  TCookies extends Schema = Schema,
 > {
   private config: {
     paramsSchema?: TParams;
     querySchema?: TQuery;
+    queryParser?: QueryParser;
     bodySchema?: TBody;
+    headersSchema?: THeaders;
+    cookiesSchema?: TCookies;
+    contentTypes?: string[];
+    responseSchemas?: { default?: Schema; statuses?: Record<number, Schema> };
+    meta?: RouteMeta;
+    timeout?: number;
+    cors?: CorsOptions;
+    rateLimits?: RateLimit[];
+    idempotency?: Idempotency;
   };
   private middlewares: Middleware[];
-  private handleServerError?: HandlerServerErrorFn;
+  private beforeParsingMiddlewares: BeforeParsingMiddleware[];
+  private serverErrorHandlers: HandlerServerErrorFn[];
+  private formatValidationError: FormatValidationErrorFn;
+  private responseValidation: ResponseValidationMode;
   private validationAdapter: ValidationAdapter;
+  private hooks: RouteHooks[];
   private contextType: TContext;
 
   constructor({
     config = {},
     validationAdapter = zodAdapter(),
     middlewares = [],
-    handleServerError,
+    beforeParsingMiddlewares = [],
+    serverErrorHandlers = [],
+    formatValidationError = defaultFormatValidationError,
+    responseValidation = 'error',
+    hooks = [],
     contextType,
   }: {
     config?: {
       paramsSchema?: TParams;
       querySchema?: TQuery;
+      queryParser?: QueryParser;
       bodySchema?: TBody;
+      headersSchema?: THeaders;
+      cookiesSchema?: TCookies;
+      contentTypes?: string[];
+      responseSchemas?: { default?: Schema; statuses?: Record<number, Schema> };
+      meta?: RouteMeta;
+      timeout?: number;
+      cors?: CorsOptions;
+      rateLimits?: RateLimit[];
+      idempotency?: Idempotency;
     };
     middlewares?: Middleware[];
-    handleServerError?: HandlerServerErrorFn;
+    beforeParsingMiddlewares?: BeforeParsingMiddleware[];
+    serverErrorHandlers?: HandlerServerErrorFn[];
+    formatValidationError?: FormatValidationErrorFn;
+    responseValidation?: ResponseValidationMode;
     validationAdapter?: ValidationAdapter;
+    hooks?: RouteHooks[];
     contextType: TContext;
   }) {
     this.config = config;
     this.middlewares = middlewares;
-    this.handleServerError = handleServerError;
+    this.beforeParsingMiddlewares = beforeParsingMiddlewares;
+    this.serverErrorHandlers = serverErrorHandlers;
+    this.formatValidationError = formatValidationError;
+    this.responseValidation = responseValidation;
     this.validationAdapter = validationAdapter;
+    this.hooks = hooks;
     this.contextType = contextType;
   }
 
   /**
-   * Define the schema for the params
+   * Define the schema for the params, merging it into the schema previously defined if any
    * @param schema - The schema for the params
    * @returns A new instance of the RouteHandlerBuilder
    */
-  params<T extends Schema>(schema: T): RouteHandlerBuilder<T, TQuery, TBody, TContext> {
-    return new RouteHandlerBuilder<T, TQuery, TBody, TContext>({
+  params<T extends Schema>(
+    schema: T,
+  ): RouteHandlerBuilder<
+    MergeSchemas<TParams, T>,
+    TQuery,
+    TBody,
+    TContext,
+    TResponse,
+    TPreContext,
+    THeaders,
+    TCookies
+  > {
+    return new RouteHandlerBuilder<
+      MergeSchemas<TParams, T>,
+      TQuery,
+      TBody,
+      TContext,
+      TResponse,
+      TPreContext,
+      THeaders,
+      TCookies
+    >({
       ...this,
-      config: { ...this.config, paramsSchema: schema },
+      config: { ...this.config, paramsSchema: this.mergeSchemas(this.config.paramsSchema, schema) },
     });
   }
 
   /**
-   * Define the schema for the query
+   * Define the schema for the query, merging it into the schema previously defined if any
    * @param schema - The schema for the query
+   * @param options - How the query string is parsed before validation, keeping the last value of repeated keys by default
    * @returns A new instance of the RouteHandlerBuilder
    */
-  query<T extends Schema>(schema: T): RouteHandlerBuilder<TParams, T, TBody, TContext> {
-    return new RouteHandlerBuilder<TParams, T, TBody, TContext>({
+  query<T extends Schema>(
+    schema: T,
+    options?: { parser?: QueryParser },
+  ): RouteHandlerBuilder<
+    TParams,
+    MergeSchemas<TQuery, T>,
+    TBody,
+    TContext,
+    TResponse,
+    TPreContext,
+    THeaders,
+    TCookies
+  > {
+    return new RouteHandlerBuilder<
+      TParams,
+      MergeSchemas<TQuery, T>,
+      TBody,
+      TContext,
+      TResponse,
+      TPreContext,
+      THeaders,
+      TCookies
+    >({
       ...this,
-      config: { ...this.config, querySchema: schema },
+      config: {
+        ...this.config,
+        querySchema: this.mergeSchemas(this.config.querySchema, schema),
+        queryParser: options?.parser ?? this.config.queryParser,
+      },
     });
   }
 
   /**
-   * Define the schema for the body
+   * Define the schema for the body, merging it into the schema previously defined if any
    * @param schema - The schema for the body
    * @returns A new instance of the RouteHandlerBuilder
    */
-  body<T extends Schema>(schema: T): RouteHandlerBuilder<TParams, TQuery, T, TContext> {
-    return new RouteHandlerBuilder<TParams, TQuery, T, TContext>({
+  body<T extends Schema>(
+    schema: T,
+  ): RouteHandlerBuilder<
+    TParams,
+    TQuery,
+    MergeSchemas<TBody, T>,
+    TContext,
+    TResponse,
+    TPreContext,
+    THeaders,
+    TCookies
+  > {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      MergeSchemas<TBody, T>,
+      TContext,
+      TResponse,
+      TPreContext,
+      THeaders,
+      TCookies
+    >({
       ...this,
-      config: { ...this.config, bodySchema: schema },
+      config: { ...this.config, bodySchema: this.mergeSchemas(this.config.bodySchema, schema) },
     });
   }
 
   /**
-   * Add a middleware to the route handler
+   * Define the schema for the headers, whose names are lowercased before validation, merging it into the schema
+   * previously defined if any
+   * @param schema - The schema for the headers
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  headers<T extends Schema>(
+    schema: T,
+  ): RouteHandlerBuilder<
+    TParams,
+    TQuery,
+    TBody,
+    TContext,
+    TResponse,
+    TPreContext,
+    MergeSchemas<THeaders, T>,
+    TCookies
+  > {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TResponse,
+      TPreContext,
+      MergeSchemas<THeaders, T>,
+      TCookies
+    >({
+      ...this,
+      config: { ...this.config, headersSchema: this.mergeSchemas(this.config.headersSchema, schema) },
+    });
+  }
+
+  /**
+   * Define the schema for the cookies, merging it into the schema previously defined if any
+   * @param schema - The schema for the cookies
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  cookies<T extends Schema>(
+    schema: T,
+  ): RouteHandlerBuilder<
+    TParams,
+    TQuery,
+    TBody,
+    TContext,
+    TResponse,
+    TPreContext,
+    THeaders,
+    MergeSchemas<TCookies, T>
+  > {
+    return new RouteHandlerBuilder<
+      TParams,
+      TQuery,
+      TBody,
+      TContext,
+      TResponse,
+      TPreContext,
+      THeaders,
+      MergeSchemas<TCookies, T>
+    >({
+      ...this,
+      config: { ...this.config, cookiesSchema: this.mergeSchemas(this.config.cookiesSchema, schema) },
+    });
+  }
+
+  /**
+   * Restrict the content types of the request body accepted by the route
+   * @param contentTypes - The accepted content types, e.g. `application/json` or `multipart/form-data`
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  accepts(
+    ...contentTypes: string[]
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: { ...this.config, contentTypes },
+    });
+  }
+
+  /**
+   * Define the schema for the response body, used to type the handler's return value and validate its JSON output.
+   * Without a status code, the schema applies to all 2xx responses that have no schema of their own.
+   * @param schema - The schema for the response body
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  response<T extends Schema>(
+    schema: T,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse | T, TPreContext, THeaders, TCookies>;
+  /**
+   * Define the schema for the response body of a specific status code
+   * @param status - The status code the schema applies to
+   * @param schema - The schema for the response body
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  response<T extends Schema>(
+    status: number,
+    schema: T,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse | T, TPreContext, THeaders, TCookies>;
+  response<T extends Schema>(statusOrSchema: number | T, schema?: T) {
+    const responseSchemas = this.config.responseSchemas ?? {};
+
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse | T, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: {
+        ...this.config,
+        responseSchemas:
+          typeof statusOrSchema === 'number'
+            ? { ...responseSchemas, statuses: { ...responseSchemas.statuses, [statusOrSchema]: schema as T } }
+            : { ...responseSchemas, default: statusOrSchema },
+      },
+    });
+  }
+
+  /**
+   * Add a server error handler, which is called before the ones previously added and falls back to them when it returns
+   * nothing, e.g. to handle the errors of a group of routes extending a base builder
+   * @param handleServerError - The server error handler
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  handleServerError(
+    handleServerError: HandlerServerErrorFn,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      serverErrorHandlers: [...this.serverErrorHandlers, handleServerError],
+    });
+  }
+
+  /**
+   * Allow browsers on other origins to call the route, adding the CORS headers to all of its responses
+   * @param options - The allowed origins, credentials, headers and methods, and how long preflight results are cached
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  cors(
+    options: CorsOptions,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: { ...this.config, cors: options },
+    });
+  }
+
+  /**
+   * Limit the number of requests of each client, responding with a 429 when the limit is exceeded. Every response
+   * describes the state of the limit in `RateLimit-*` headers.
+   * @param options - The limit, window, algorithm, key of the clients and store of the rate limit
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  rateLimit(
+    options: RateLimitOptions<{
+      request: Request;
+      params: InferParams<TParams>;
+      query: Infer<TQuery>;
+      body: Infer<TBody>;
+      headers: InferStringRecord<THeaders>;
+      cookies: InferStringRecord<TCookies>;
+      ctx: TContext;
+    }>,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    const rateLimit = { options, store: options.store ?? new MemoryRateLimitStore() };
+
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: { ...this.config, rateLimits: [...(this.config.rateLimits ?? []), rateLimit] },
+    });
+  }
+
+  /**
+   * Make the route safe to retry: the response of the first request with an idempotency key is stored and replayed
+   * for the retries with the same key and body
+   * @param options - The scope, store, TTL and header of the idempotency keys, and whether they are required
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  idempotency(
+    options: IdempotencyOptions<{
+      request: Request;
+      params: InferParams<TParams>;
+      query: Infer<TQuery>;
+      body: Infer<TBody>;
+      headers: InferStringRecord<THeaders>;
+      cookies: InferStringRecord<TCookies>;
+      ctx: TContext;
+    }>,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    const idempotency = { options, store: options.store ?? new MemoryIdempotencyStore() };
+
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: { ...this.config, idempotency },
+    });
+  }
+
+  /**
+   * Limit the time the middlewares and the handler can take, responding with a 504 when it's exceeded
+   * @param ms - The maximum duration in milliseconds
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  timeout(
+    ms: number,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: { ...this.config, timeout: ms },
+    });
+  }
+
+  /**
+   * Describe the route for OpenAPI documents, merging the metadata with any previously defined
+   * @param meta - The metadata of the route, e.g. its path, summary and tags
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  meta(
+    meta: RouteMeta,
+  ): RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies> {
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+      ...this,
+      config: { ...this.config, meta: { ...this.config.meta, ...meta } },
+    });
+  }
+
+  /**
+   * Add a middleware that runs before the request body is parsed and validated, e.g. for authentication or rate limits
+   * @param middleware - The middleware function to be executed
+   * @param options - The phase in which the middleware runs
+   * @returns A new instance of the RouteHandlerBuilder
+   */
+  use<TResult extends MiddlewareReturnType>(
+    middleware: BeforeParsingMiddlewareFunction<TPreContext, TResult>,
+    options: { phase: 'beforeParsing' },
+  ): RouteHandlerBuilder<
+    TParams,
+    TQuery,
+    TBody,
+    TContext & MiddlewareContext<TResult>,
+    TResponse,
+    TPreContext & MiddlewareContext<TResult>,
+    THeaders,
+    TCookies
+  >;
+  /**
+   * Add a middleware that runs after the params, query and body have been validated
    * @param middleware - The middleware function to be executed
+   * @param options - The phase in which the middleware runs
    * @returns A new instance of the RouteHandlerBuilder
    */
-  use<TReturnType extends Record<string, unknown>>(middleware: Middleware<TReturnType>) {
-    return new RouteHandlerBuilder({
+  use<TResult extends MiddlewareReturnType>(
+    middleware: MiddlewareFunction<
+      InferParams<TParams>,
+      Infer<TQuery>,
+      Infer<TBody>,
+      TContext,
+      TResult,
+      InferStringRecord<THeaders>,
+      InferStringRecord<TCookies>
+    >,
+    options?: { phase?: 'afterValidation' },
+  ): RouteHandlerBuilder<
+    TParams,
+    TQuery,
+    TBody,
+    TContext & MiddlewareContext<TResult>,
+    TResponse,
+    TPreContext,
+    THeaders,
+    TCookies
+  >;
+  use(middleware: Middleware | BeforeParsingMiddleware, options?: { phase?: MiddlewarePhase }) {
+    if (options?.phase === 'beforeParsing') {
+      return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
+        ...this,
+        beforeParsingMiddlewares: [...this.beforeParsingMiddlewares, middleware as BeforeParsingMiddleware],
+      });
+    }
+
+    return new RouteHandlerBuilder<TParams, TQuery, TBody, TContext, TResponse, TPreContext, THeaders, TCookies>({
       ...this,
-      middlewares: [...this.middlewares, middleware],
-      contextType: {} as unknown as TContext & TReturnType,
+      middlewares: [...this.middlewares, middleware as Middleware],
     });
   }
 
+  /**
+   * Merge a schema into the schema previously defined for a segment
+   * @param base - The schema previously defined, if any
+   * @param schema - The schema to merge into it
+   * @returns The merged schema, or the schema itself if the segment had none
+   */
+  private mergeSchemas<T extends Schema>(base: Schema | undefined, schema: Schema) {
+    if (!base) {
+      return schema as T;
+    }
+    if (!this.validationAdapter.merge) {
+      throw new Error('The validation adapter does not support merging schemas');
+    }
+
+    return this.validationAdapter.merge(base, schema) as T;
+  }
+
+  /**
+   * Execute middlewares in order and then the final step, letting each middleware extend the context, respond early,
+   * or wrap the rest of the chain by calling next
+   * @param middlewares - The middlewares to execute
+   * @param args - The arguments passed to every middleware besides the context and next
+   * @param ctx - The context built so far
+   * @param final - The step to execute after the middlewares, with the resulting context
+   * @returns The response of the chain
+   */
+  private async runMiddlewares<TArgs extends { request: Request }>(
+    middlewares: Array<(args: TArgs & { ctx: Record<string, unknown>; next: MiddlewareNextFn }) => unknown>,
+    args: TArgs,
+    ctx: Record<string, unknown>,
+    final: (ctx: Record<string, unknown>) => Promise<Response>,
+  ): Promise<Response> {
+    const [middleware, ...rest] = middlewares;
+    if (!middleware) {
+      return final(ctx);
+    }
+
+    let downstream: Promise<Response> | undefined;
+    const next = (nextCtx?: Record<string, unknown>) => {
+      downstream ??= this.runMiddlewares(rest, args, { ...ctx, ...nextCtx }, final);
+      return downstream;
+    };
+
+    const result = (await middleware({ ...args, ctx, next })) as MiddlewareReturnType;
+    if (result instanceof Response) {
+      return result;
+    }
+
+    if (downstream) {
+      return downstream;
+    }
+
+    return this.runMiddlewares(rest, args, { ...ctx, ...result }, final);
+  }
+
+  /**
+   * Call a hook of every set of hooks, logging the errors they throw
+   * @param name - The name of the hook
+   * @param event - The event passed to the hook
+   */
+  private async emit<K extends keyof RouteHooks>(name: K, event: Parameters<NonNullable<RouteHooks[K]>>[0]) {
+    for (const hooks of this.hooks) {
+      try {
+        await (hooks[name] as ((event: unknown) => unknown) | undefined)?.(event);
+      } catch (error) {
+        console.error(`The ${name} hook failed`, error);
+      }
+    }
+  }
+
+  /**
+   * Wrap middlewares to time them and call the onMiddleware hook after each of them
+   * @param middlewares - The middlewares to wrap
+   * @param phase - The phase in which the middlewares run
+   * @param event - The event of the request
+   * @param timings - The timings of the request, where the duration of each middleware is recorded
+   * @returns The wrapped middlewares
+   */
+  private observeMiddlewares<T extends Middleware | BeforeParsingMiddleware>(
+    middlewares: T[],
+    phase: MiddlewarePhase,
+    event: RouteEvent,
+    timings: RouteTimings,
+  ): T[] {
+    if (this.hooks.length === 0) {
+      return middlewares;
+    }
+
+    return middlewares.map((middleware, index) => {
+      const name = middleware.name || 'anonymous';
+      const observedMiddleware = async (args: Parameters<T>[0]) => {
+        const startTime = performance.now();
+        const onMiddleware = async (error?: unknown) => {
+          const duration = performance.now() - startTime;
+          timings.middlewares.push({ name, phase, duration });
+          await this.emit('onMiddleware', { ...event, name, phase, index, duration, error });
+        };
+
+        try {
+          const result = await middleware(args as never);
+          await onMiddleware();
+          return result;
+        } catch (error) {
+          await onMiddleware(error);
+          throw error;
+        }
+      };
+
+      return observedMiddleware as T;
+    });
+  }
+
+  /**
+   * Validate a segment of the request against its schema, timing the validation
+   * @param segment - The segment of the request
+   * @param schema - The schema of the segment, if any
+   * @param data - The parsed segment
+   * @param timings - The timings of the request, where the duration of the validation is recorded
+   * @returns The validated segment, or the parsed segment if it has no schema
+   */
+  private async validateSegment(
+    segment: ValidationSegment,
+    schema: Schema | undefined,
+    data: unknown,
+    timings: RouteTimings,
+  ) {
+    if (!schema) {
+      return data;
+    }
+
+    const startTime = performance.now();
+    const result = await this.validationAdapter.validate(schema, data);
+    timings.validation[segment] = performance.now() - startTime;
+    if (!result.success) {
+      throw new SafeRouteValidationError(segment, result.issues);
+    }
+
+    return result.data as unknown;
+  }
+
+  /**
+   * Convert an error caught while handling a request into a response, calling the error hooks and handler first
+   * @param error - The caught error
+   * @param event - The event of the request
+   * @param startTime - When the request was received
+   * @returns The response for the error
+   */
+  private async handleError(error: unknown, event: RouteEvent, startTime: number): Promise<Response> {
+    const normalizedError = error instanceof Error ? error : new Error(String(error));
+    const category =
+      normalizedError instanceof SafeRouteValidationError
+        ? 'validation'
+        : normalizedError instanceof HttpError
+          ? 'http'
+          : 'server';
+
+    const duration = performance.now() - startTime;
+    if (normalizedError instanceof SafeRouteValidationError) {
+      await this.emit('onValidationError', {
+        ...event,
+        error: normalizedError,
+        segment: normalizedError.segment,
+        duration,
+      });
+    }
+    await this.emit('onError', { ...event, error: normalizedError, category, duration });
+
+    // Let the custom error handlers respond first, from the last one added, falling back to the default handling if
+    // none of them returns a response
+    for (const handleServerError of [...this.serverErrorHandlers].reverse()) {
+      const response = await handleServerError(normalizedError, { request: event.request, category });
+      if (response) {
+        return response;
+      }
+    }
+
+    if (normalizedError instanceof SafeRouteValidationError) {
+      return this.formatValidationError(normalizedError);
+    }
+
+    if (normalizedError instanceof HttpError) {
+      return normalizedError.toResponse();
+    }
+
+    return Response.json({ message: 'Internal server error' }, { status: 500 });
+  }
+
+  /**
+   * Count a request against rate limits, throwing a 429 error as soon as one of them is exceeded
+   * @param rateLimits - The rate limits to enforce
+   * @param request - The incoming request
+   * @param args - The arguments passed to the key functions
+   * @param results - The outcomes of the rate limits for the request, where the outcome of each rate limit is recorded
+   */
+  private async enforceRateLimits(
+    rateLimits: RateLimit[],
+    request: Request,
+    args: Record<string, unknown>,
+    results: RateLimitResult[],
+  ) {
+    for (const { options, store } of rateLimits) {
+      // Requests without an IP address are not limited, rather than sharing a single limit
+      const key = await getRateLimitKey(options, request, args);
+      if (key === undefined) {
+        continue;
+      }
+
+      const result = await consumeRateLimit(options, store, key);
+      results.push(result);
+      if (!result.allowed) {
+        throw tooManyRequests(undefined, { headers: getRateLimitHeaders(result) });
+      }
+    }
+  }
+
+  /**
+   * Validate the JSON body of a response against the schema for its status code
+   * @param response - The response returned by the handler
+   * @returns The response with its body replaced by the parsed output, or the original response if it was not validated
+   */
+  private async validateResponse(response: Response): Promise<Response> {
+    const { responseSchemas } = this.config;
+    if (this.responseValidation === 'off' || !responseSchemas) {
+      return response;
+    }
+
+    const isSuccessful = response.status >= 200 && response.status < 300;
+    const schema = responseSchemas.statuses?.[response.status] ?? (isSuccessful ? responseSchemas.default : undefined);
+    const contentType = response.headers.get('content-type')?.split(';')[0]?.trim().toLowerCase();
+    if (!schema || !contentType || !(contentType === 'application/json' || contentType.endsWith('+json'))) {
+      return response;
+    }
+
+    // Keys unknown to the schema are removed, so that responses never leak what the schema doesn't describe
+    const result = await this.validationAdapter.validate(schema, await response.clone().json(), { stripUnknown: true });
+    if (!result.success) {
+      if (this.responseValidation === 'log') {
+        console.warn('Response validation failed', result.issues);
+        return response;
+      }
+
+      throw new ResponseValidationError(response.status, result.issues);
+    }
+
+    const headers = new Headers(response.headers);
+    headers.delete('content-length');
+
+    return Response.json(result.data, { status: response.status, statusText: response.statusText, headers });
+  }
+
   /**
    * Create the handler function that will be used by Next.js
    * @param handler - The handler function that will be called when the route is hit
    * @returns The original route handler that Next.js expects with the validation logic
    */
-  handler(handler: HandlerFunction<Infer<TParams>, Infer<TQuery>, Infer<TBody>, TContext>): OriginalRouteHandler {
-    return async (request, context): Promise<Response> => {
-      try {
-        const url = new URL(request.url);
-        const params = context?.params || {};
-        const query = Object.fromEntries(url.searchParams.entries());
-        const body = request.method !== 'GET' ? await request.json() : {};
-
-        // Validate the params against the provided schema
-        if (this.config.paramsSchema) {
-          const paramsResult = await this.validationAdapter.validate(this.config.paramsSchema, params);
-          if (!paramsResult.success) {
-            throw new Error(JSON.stringify({ message: 'Invalid params', errors: paramsResult }));
-          }
+  handler<TResult extends HandlerReturnType<InferIn<TResponse>>>(
+    handler: HandlerFunction<
+      InferParams<TParams>,
+      Infer<TQuery>,
+      Infer<TBody>,
+      TContext,
+      TResult,
+      InferStringRecord<THeaders>,
+      InferStringRecord<TCookies>
+    >,
+  ): SafeRouteHandler<
+    [TResponse] extends [never] ? HandlerOutput<TResult> : Infer<TResponse>,
+    {
+      params: InferInput<TParams, RouteParams | undefined>;
+      query: InferInput<TQuery, Record<string, unknown> | undefined>;
+      body: InferInput<TBody, unknown>;
+    }
+  > {
+    // Create the route handler, replacing middlewares with their overrides when invoked from tests
+    const createRouteHandler = (overrides: MiddlewareOverrides = new Map()) => {
+      const beforeParsingMiddlewares = this.beforeParsingMiddlewares.map((middleware) =>
+        overrideMiddleware(middleware, overrides),
+      );
+      const middlewares = this.middlewares.map((middleware) => overrideMiddleware(middleware, overrides));
+
+      return async (request: Request, context?: RouteContext): Promise<Response> => {
+        const startTime = performance.now();
+        const event: RouteEvent = { request, route: this.config.meta ?? {} };
+        const timings: RouteTimings = { validation: {}, middlewares: [], total: 0 };
+        await this.emit('onRequest', event);
+
+        // Abort the signal passed to the middlewares and the handler when the client disconnects or the route times out
+        const controller = new AbortController();
+        const { signal } = controller;
+        const abort = () => controller.abort(request.signal.reason);
+        if (request.signal.aborted) {
+          abort();
         }
+        request.signal.addEventListener('abort', abort, { once: true });
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+        // Rate limits keyed by a function need the validated input and the context, the others are enforced first
+        const rateLimits = this.config.rateLimits ?? [];
+        const rateLimitResults: RateLimitResult[] = [];
 
-        // Validate the query against the provided schema
-        if (this.config.querySchema) {
-          const queryResult = await this.validationAdapter.validate(this.config.querySchema, query);
-          if (!queryResult.success) {
-            throw new Error(JSON.stringify({ message: 'Invalid query', errors: queryResult.issues }));
+        let response: Response;
+        try {
+          await this.enforceRateLimits(
+            rateLimits.filter(({ options }) => typeof options.key !== 'function'),
+            request,
+            {},
+            rateLimitResults,
+          );
+
+          // Execute the middlewares that run before parsing, then parse and validate the request
+          const observedBeforeParsingMiddlewares = this.observeMiddlewares(
+            beforeParsingMiddlewares,
+            'beforeParsing',
+            event,
+            timings,
+          );
+          const execution = this.runMiddlewares(
+            observedBeforeParsingMiddlewares,
+            { request, signal },
+            {},
+            async (preCtx) => {
+              const url = new URL(request.url);
+              const params = (await context?.params) ?? {};
+              const query = parseQuery(url.searchParams, this.config.queryParser);
+              const headers = Object.fromEntries(request.headers.entries());
+              const cookies = parseCookies(request);
+
+              // Reject request bodies with a content type the route does not accept
+              if (!isContentTypeAccepted(request, this.config.contentTypes)) {
+                throw unsupportedMediaType();
+              }
+
+              // Parse the body according to its content type
+              const parseStartTime = performance.now();
+              const body = await parseRequestBody(request);
+              timings.parseBody = performance.now() - parseStartTime;
+
+              // Validate each segment against the provided schema
+              const validatedParams = await this.validateSegment('params', this.config.paramsSchema, params, timings);
+              const validatedQuery = await this.validateSegment('query', this.config.querySchema, query, timings);
+              const validatedHeaders = await this.validateSegment(
+                'headers',
+                this.config.headersSchema,
+                headers,
+                timings,
+              );
+              const validatedCookies = await this.validateSegment(
+                'cookies',
+                this.config.cookiesSchema,
+                cookies,
+                timings,
+              );
+              const validatedBody = await this.validateSegment('body', this.config.bodySchema, body, timings);
+
+              // Execute the middlewares that run after validation, then the handler
+              const input = {
+                request,
+                params: validatedParams,
+                query: validatedQuery,
+                body: validatedBody,
+                headers: validatedHeaders,
+                cookies: validatedCookies,
+                signal,
+              };
+              const observedMiddlewares = this.observeMiddlewares(middlewares, 'afterValidation', event, timings);
+              return this.runMiddlewares(observedMiddlewares, input, preCtx, async (ctx) => {
+                await this.enforceRateLimits(
+                  rateLimits.filter(({ options }) => typeof options.key === 'function'),
+                  request,
+                  { ...input, ctx },
+                  rateLimitResults,
+                );
+
+                const handle = async () => {
+                  // Call the handler function with the parsed params, query, and body
+                  const handlerStartTime = performance.now();
+                  const result = await handler(request, {
+                    params: validatedParams as InferParams<TParams>,
+                    query: validatedQuery as Infer<TQuery>,
+                    body: validatedBody as Infer<TBody>,
+                    headers: validatedHeaders as InferStringRecord<THeaders>,
+                    cookies: validatedCookies as InferStringRecord<TCookies>,
+                    data: ctx as TContext,
+                    signal,
+                  });
+                  timings.handler = performance.now() - handlerStartTime;
+
+                  // Convert the result into a response and validate its body against the provided schema
+                  return this.validateResponse(toResponse(result));
+                };
+
+                // Replay the response of the first request with the same idempotency key
+                const { idempotency } = this.config;
+                if (idempotency) {
+                  return handleIdempotently(idempotency.options, idempotency.store, request, { ...input, ctx }, handle);
+                }
+
+                return handle();
+              });
+            },
+          );
+
+          const { timeout } = this.config;
+          if (timeout === undefined) {
+            response = await execution;
+          } else {
+            // Respond with a 504 when the execution takes longer than the timeout, ignoring its eventual outcome
+            execution.catch(() => undefined);
+            const timeoutError = new Promise<never>((_, reject) => {
+              timeoutId = setTimeout(() => {
+                controller.abort(new DOMException('The route timed out', 'TimeoutError'));
+                reject(gatewayTimeout());
+              }, timeout);
+            });
+
+            response = await Promise.race([execution, timeoutError]);
           }
+        } catch (error) {
+          response = await this.handleError(error, event, startTime);
+        } finally {
+          clearTimeout(timeoutId);
+          request.signal.removeEventListener('abort', abort);
         }
 
-        // Validate the body against the provided schema
-        if (this.config.bodySchema) {
-          const bodyResult = await this.validationAdapter.validate(this.config.bodySchema, body);
-          if (!bodyResult.success) {
-            throw new Error(JSON.stringify({ message: 'Invalid body', errors: bodyResult.issues }));
+        // Describe the most restrictive rate limit of the request
+        const rateLimitResult = rateLimitResults.reduce<RateLimitResult | undefined>(
+          (mostRestrictive, result) =>
+            !mostRestrictive || !result.allowed || result.remaining < mostRestrictive.remaining
+              ? result
+              : mostRestrictive,
+          undefined,
+        );
+        if (rateLimitResult) {
+          const headers = new Headers(response.headers);
+          for (const [name, value] of Object.entries(getRateLimitHeaders(rateLimitResult))) {
+            headers.set(name, value);
           }
+          response = new Response(response.body, { status: response.status, statusText: response.statusText, headers });
         }
 
-        // Execute middlewares and build context
-        let middlewareContext: TContext = {} as TContext;
-        for (const middleware of this.middlewares) {
-          const result = await middleware(request);
-          middlewareContext = { ...middlewareContext, ...result };
+        if (this.config.cors) {
+          response = await withCorsHeaders(response, request, this.config.cors);
         }
 
-        // Call the handler function with the validated params, query, and body
-        const result = await handler(request, {
-          params: params as Infer<TParams>,
-          query: query as Infer<TQuery>,
-          body: body as Infer<TBody>,
-          data: middlewareContext,
-        });
-        return result;
-      } catch (error) {
-        if (this.handleServerError) {
-          return this.handleServerError(error as Error);
-        }
+        timings.total = performance.now() - startTime;
+        await this.emit('onResponse', { ...event, response, duration: timings.total, timings });
 
-        if (error instanceof Error) {
-          return new Response(error.message, { status: 400 });
-        }
+        return response;
+      };
+    };
+    const routeHandler = createRouteHandler();
+
+    // Keep the definition of the route on the handler so that it can be documented
+    const definition: RouteDefinition = {
+      ...this.config,
+      meta: this.config.meta ?? {},
+      validationAdapter: this.validationAdapter,
+    };
+
+    return Object.assign(routeHandler, {
+      [routeDefinitionSymbol]: definition,
+      [overrideMiddlewaresSymbol]: createRouteHandler,
+    });
+  }
+
+  /**
+   * Create the handler for the preflight requests of the route, to export as `OPTIONS` next to its handlers
+   * @returns The route handler responding to preflight requests with the CORS headers
+   */
+  preflight(): OriginalRouteHandler {
+    const { cors } = this.config;
+    if (!cors) {
+      throw new Error(
+        'Preflight requests can only be handled for routes with CORS enabled, set it with .cors(options)',
+      );
+    }
 
-        return new Response(JSON.stringify({ message: 'Internal server error' }), { status: 500 });
+    // Allow the method of the route when its metadata has one, as the other methods of the path are unknown
+    const method = this.config.meta?.method;
+    const methods = method ? [method] : httpMethods;
+
+    return async (request: Request) => createPreflightResponse(request, cors, cors.allowedMethods ?? methods);
+  }
+
+  /**
+   * Create the handlers of a route group, deriving the handler of each method from this builder
+   * @param handlers - A function per method that receives this builder and returns the handler for the method
+   * @returns The route handlers to export, with generated handlers for `OPTIONS` and the methods not defined
+   */
+  methods<THandlers extends MethodHandlers<this>>(handlers: THandlers): MethodRouteHandlers<THandlers> {
+    const routeHandlers: Partial<Record<HttpMethod, OriginalRouteHandler>> = {};
+    for (const method of httpMethods) {
+      const handler = handlers[method];
+      if (handler) {
+        routeHandlers[method] = handler(this);
+      }
+    }
+
+    // Respond to HEAD requests like GET requests without the body, like Next.js does when HEAD is not exported
+    const getHandler = routeHandlers.GET;
+    if (getHandler && !routeHandlers.HEAD) {
+      routeHandlers.HEAD = async (request: Request, context?: RouteContext) => {
+        const response = await getHandler(request, context);
+        return new Response(null, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: response.headers,
+        });
+      };
+    }
+
+    // Respond to OPTIONS requests with the allowed methods, and to preflight requests when CORS is enabled, unless the
+    // group defines its own handler
+    const allowedMethods = httpMethods.filter((method) => method === 'OPTIONS' || routeHandlers[method]);
+    const allowHeader = allowedMethods.join(', ');
+    const { cors } = this.config;
+    routeHandlers.OPTIONS ??= async (request: Request) => {
+      if (!cors) {
+        return new Response(null, { status: 204, headers: { Allow: allowHeader } });
       }
+
+      const response = await createPreflightResponse(request, cors, allowedMethods);
+      response.headers.set('Allow', allowHeader);
+      return response;
     };
+
+    // Respond with a 405 to the methods the group does not define
+    for (const method of httpMethods) {
+      routeHandlers[method] ??= async (request: Request) => {
+        const response = methodNotAllowed(undefined, { headers: { Allow: allowHeader } }).toResponse();
+        return cors ? withCorsHeaders(response, request, cors) : response;
+      };
+    }
+
+    return routeHandlers as MethodRouteHandlers<THandlers>;
   }
 }
@@ -0,0 +1,195 @@
+import { Infer, InferIn, Schema, ValidationAdapter } from './adapters/types';
+import { zodAdapter } from './adapters/zod';
+import { HttpError, SafeRouteValidationError } from './errors';
+import { formDataToObject } from './parseRequestBody';
+import {
+  ActionHandlerFunction,
+  ActionMiddlewareFunction,
+  ActionMiddlewareReturnType,
+  ActionNextFn,
+  ActionResult,
+  ActionServerErrorFn,
+  MiddlewareContext,
+  SafeAction,
+} from './types';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ActionMiddleware = ActionMiddlewareFunction<any, any, ActionMiddlewareReturnType>;
+
+// Callers of actions without an input schema may send anything
+type InferActionInput<T extends Schema> = Schema extends T ? unknown : InferIn<T>;
+
+/**
+ * Check if an error is thrown by Next.js to control the flow of the action, e.g. by `redirect()` or `notFound()`
+ * @param error - The thrown error
+ * @returns Whether the error must be re-thrown for Next.js to handle it
+ */
+function isNextControlFlowError(error: unknown) {
+  const digest = (error as { digest?: unknown } | null)?.digest;
+
+  return (
+    typeof digest === 'string' &&
+    (digest.startsWith('NEXT_REDIRECT') ||
+      digest.startsWith('NEXT_NOT_FOUND') ||
+      digest.startsWith('NEXT_HTTP_ERROR_FALLBACK'))
+  );
+}
+
+export class SafeActionBuilder<
+  TInput extends Schema = Schema,
+  TContext extends Record<string, unknown> = Record<string, unknown>,
+> {
+  private config: {
+    inputSchema?: TInput;
+  };
+  private middlewares: ActionMiddleware[];
+  private handleServerError?: ActionServerErrorFn;
+  private validationAdapter: ValidationAdapter;
+  private contextType: TContext;
+
+  constructor({
+    config = {},
+    validationAdapter = zodAdapter(),
+    middlewares = [],
+    handleServerError,
+    contextType,
+  }: {
+    config?: {
+      inputSchema?: TInput;
+    };
+    middlewares?: ActionMiddleware[];
+    handleServerError?: ActionServerErrorFn;
+    validationAdapter?: ValidationAdapter;
+    contextType: TContext;
+  }) {
+    this.config = config;
+    this.middlewares = middlewares;
+    this.handleServerError = handleServerError;
+    this.validationAdapter = validationAdapter;
+    this.contextType = contextType;
+  }
+
+  /**
+   * Define the schema for the input, which is validated as is or, when the action receives form data, after converting
+   * it into an object
+   * @param schema - The schema for the input
+   * @returns A new instance of the SafeActionBuilder
+   */
+  input<T extends Schema>(schema: T): SafeActionBuilder<T, TContext> {
+    return new SafeActionBuilder<T, TContext>({
+      ...this,
+      config: { ...this.config, inputSchema: schema },
+    });
+  }
+
+  /**
+   * Add a middleware that runs after the input has been validated
+   * @param middleware - The middleware function to be executed
+   * @returns A new instance of the SafeActionBuilder
+   */
+  use<TResult extends ActionMiddlewareReturnType>(
+    middleware: ActionMiddlewareFunction<Infer<TInput>, TContext, TResult>,
+  ): SafeActionBuilder<TInput, TContext & MiddlewareContext<TResult>> {
+    return new SafeActionBuilder<TInput, TContext & MiddlewareContext<TResult>>({
+      ...this,
+      contextType: this.contextType as TContext & MiddlewareContext<TResult>,
+      middlewares: [...this.middlewares, middleware as ActionMiddleware],
+    });
+  }
+
+  /**
+   * Execute middlewares in order and then the final step, letting each middleware extend the context or wrap the rest
+   * of the chain by calling next
+   * @param middlewares - The middlewares to execute
+   * @param input - The validated input
+   * @param ctx - The context built so far
+   * @param final - The step to execute after the middlewares, with the resulting context
+   * @returns The result of the chain
+   */
+  private async runMiddlewares(
+    middlewares: ActionMiddleware[],
+    input: unknown,
+    ctx: Record<string, unknown>,
+    final: (ctx: Record<string, unknown>) => Promise<ActionResult<unknown>>,
+  ): Promise<ActionResult<unknown>> {
+    const [middleware, ...rest] = middlewares;
+    if (!middleware) {
+      return final(ctx);
+    }
+
+    let downstream: Promise<ActionResult<unknown>> | undefined;
+    const next: ActionNextFn = (nextCtx) => {
+      downstream ??= this.runMiddlewares(rest, input, { ...ctx, ...nextCtx }, final);
+      return downstream;
+    };
+
+    const result = await middleware({ input, ctx, next });
+    if (downstream) {
+      return downstream;
+    }
+
+    return this.runMiddlewares(rest, input, { ...ctx, ...result }, final);
+  }
+
+  /**
+   * Convert an error thrown by a middleware or the handler into the result of the action
+   * @param error - The thrown error
+   * @returns The validation errors for validation errors, or the server error for any other error
+   */
+  private async handleError(error: unknown): Promise<ActionResult<never>> {
+    if (error instanceof SafeRouteValidationError) {
+      return { validationErrors: error.issues };
+    }
+
+    const normalizedError = error instanceof Error ? error : new Error(String(error));
+    const category = normalizedError instanceof HttpError ? 'http' : 'server';
+
+    // Let the custom error handler provide the message first, falling back to the default message if it returns nothing
+    const message = await this.handleServerError?.(normalizedError, { category });
+    if (message) {
+      return { serverError: message };
+    }
+
+    // The messages of HTTP errors are meant for the client, unlike the messages of any other error
+    return { serverError: normalizedError instanceof HttpError ? normalizedError.message : 'Internal server error' };
+  }
+
+  /**
+   * Create the server action
+   * @param handler - The handler function that will be called with the validated input and the context
+   * @returns The server action, which returns its data, validation errors or server error, and only throws the errors
+   * of `redirect()` and `notFound()` for Next.js to handle them
+   */
+  action<TResult>(
+    handler: ActionHandlerFunction<Infer<TInput>, TContext, TResult>,
+  ): SafeAction<InferActionInput<TInput>, Awaited<TResult>> {
+    return async (input) => {
+      try {
+        // Validate the input, converting form data into an object first
+        const data = input instanceof FormData ? formDataToObject(input) : input;
+        let validatedInput: unknown = data;
+        if (this.config.inputSchema) {
+          const result = await this.validationAdapter.validate(this.config.inputSchema, data);
+          if (!result.success) {
+            return { validationErrors: result.issues };
+          }
+
+          validatedInput = result.data;
+        }
+
+        // Execute the middlewares, then the handler
+        const result = await this.runMiddlewares(this.middlewares, validatedInput, {}, async (ctx) => ({
+          data: await handler(validatedInput as Infer<TInput>, { data: ctx as TContext }),
+        }));
+
+        return result as ActionResult<Awaited<TResult>>;
+      } catch (error) {
+        if (isNextControlFlowError(error)) {
+          throw error;
+        }
+
+        return this.handleError(error);
+      }
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import type { ClientError, ClientRequestOptions, ClientResult } from './client';
+import { overrideMiddlewaresSymbol, routeDefinitionSymbol } from './constants';
+import type { ValidationSegment } from './errors';
+import { createRequest, toClientResult } from './request';
+import type {
+  HttpMethod,
+  InferRouteInput,
+  InferRouteOutput,
+  MiddlewareOverrides,
+  OriginalRouteHandler,
+  RouteDefinition,
+  RouteParams,
+} from './types';
+
+export type InvokeRouteOptions<THandler> = ClientRequestOptions<InferRouteInput<THandler>> & {
+  /**
+   * The method of the request, defaults to the method in the metadata of the route or `GET`
+   */
+  method?: HttpMethod;
+  /**
+   * The path of the request with its dynamic segments, e.g. `/items/[id]`, defaults to the path in the metadata of
+   * the route or `/`
+   */
+  path?: string;
+  /**
+   * Cookies sent with the request
+   */
+  cookies?: Record<string, string>;
+  /**
+   * Replacements for the middlewares of the route, keyed by the middleware passed to `use`: either a middleware to
+   * run instead, or the context to provide in its place
+   */
+  middlewares?: MiddlewareOverrides;
+};
+
+export type InvokeRouteResult<TOutput> = ClientResult<TOutput> & { status: number; headers: Headers };
+
+type InvokeRouteArgs<THandler> =
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  {} extends InvokeRouteOptions<THandler>
+    ? [options?: InvokeRouteOptions<THandler>]
+    : [options: InvokeRouteOptions<THandler>];
+
+/**
+ * Invoke a route handler in process, as Next.js would for a request
+ * @param handler - The route handler to invoke
+ * @param options - The params, query, body, headers and cookies of the request, and the middlewares to override
+ * @returns The response of the route, with its parsed data or error
+ */
+export async function invokeRoute<THandler extends OriginalRouteHandler>(
+  handler: THandler,
+  ...[options = {} as InvokeRouteOptions<THandler>]: InvokeRouteArgs<THandler>
+): Promise<InvokeRouteResult<InferRouteOutput<THandler>>> {
+  const { method, path, cookies, middlewares, ...requestOptions } = options as InvokeRouteOptions<OriginalRouteHandler>;
+  const definition = (handler as { [routeDefinitionSymbol]?: RouteDefinition })[routeDefinitionSymbol];
+
+  let routeHandler: OriginalRouteHandler = handler;
+  if (middlewares) {
+    const createRouteHandler = (
+      handler as { [overrideMiddlewaresSymbol]?: (overrides: MiddlewareOverrides) => OriginalRouteHandler }
+    )[overrideMiddlewaresSymbol];
+    if (!createRouteHandler) {
+      throw new Error('Middlewares can only be overridden for route handlers created by the builder');
+    }
+
+    routeHandler = createRouteHandler(middlewares);
+  }
+
+  const headers = new Headers(requestOptions.headers);
+  if (cookies) {
+    const cookieHeader = Object.entries(cookies).map(([name, value]) => `${name}=${encodeURIComponent(value)}`);
+    headers.set('cookie', [headers.get('cookie'), ...cookieHeader].filter(Boolean).join('; '));
+  }
+
+  const url = new URL(path ?? definition?.meta.path ?? '/', 'http://localhost');
+  const request = createRequest(method ?? definition?.meta.method ?? 'GET', url, { ...requestOptions, headers });
+  const response = await routeHandler(request, { params: (requestOptions.params ?? {}) as RouteParams });
+  const result = (await toClientResult(response)) as ClientResult<InferRouteOutput<THandler>>;
+
+  return { ...result, status: response.status, headers: response.headers };
+}
+
+/**
+ * Assert that a route responded with a validation error for a segment
+ * @param result - The result of `invokeRoute`
+ * @param segment - The segment expected to fail validation
+ * @param paths - The paths expected to have issues, e.g. `[['items', 0, 'name']]`
+ * @returns The validation error
+ */
+export function expectValidationError(
+  result: ClientResult<unknown>,
+  segment: ValidationSegment,
+  paths: Array<Array<string | number>> = [],
+): Extract<ClientError, { type: 'validation' }> {
+  const { error, response } = result;
+  if (error?.type !== 'validation') {
+    throw new Error(`Expected a validation error, but the route responded with a ${response.status}`);
+  }
+
+  if (error.segment !== segment) {
+    throw new Error(`Expected a validation error for the ${segment}, but got one for the ${error.segment}`);
+  }
+
+  for (const path of paths) {
+    if (!error.errors.some((issue) => (issue.path ?? []).map(String).join('.') === path.map(String).join('.'))) {
+      const issues = error.errors.map((issue) => (issue.path ?? []).join('.') || '(root)').join(', ');
+      throw new Error(`Expected a validation error at ${path.join('.') || '(root)'}, but got errors at ${issues}`);
+    }
+  }
+
+  return error;
+}
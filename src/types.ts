@@ -1,17 +1,278 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Schema } from './adapters/types';
+import { Schema, ValidationAdapter, ValidationIssue } from './adapters/types';
+import { SafeRouteValidationError } from './errors';
+import { IdempotencyOptions } from './idempotency';
+import { RateLimitOptions } from './rateLimit';
+import { HandlerResult } from './respond';
 
-export type HandlerFunction<TParams, TQuery, TBody, TContext> = (
+/**
+ * A response whose JSON body is typed, used as the return type of handlers with a response schema
+ */
+export type TypedResponse<T> = Response & { json(): Promise<T> };
+
+/**
+ * The values a handler may return: anything without a response schema, or a response, a `respond` result or a plain
+ * value matching the response schema
+ */
+export type HandlerReturnType<TResponse> = [TResponse] extends [never]
+  ? unknown
+  : TypedResponse<TResponse> | HandlerResult<TResponse> | TResponse;
+
+export type HandlerFunction<
+  TParams,
+  TQuery,
+  TBody,
+  TContext,
+  TResult = any,
+  THeaders = Record<string, string>,
+  TCookies = Record<string, string>,
+> = (
   request: Request,
-  context: { params: TParams; query: TQuery; body: TBody; data: TContext },
-) => any;
+  context: {
+    params: TParams;
+    query: TQuery;
+    body: TBody;
+    headers: THeaders;
+    cookies: TCookies;
+    data: TContext;
+    /** Aborted when the client disconnects or the route times out */
+    signal: AbortSignal;
+  },
+) => TResult | Promise<TResult>;
+
+/**
+ * The JSON body sent for a value returned by a handler
+ */
+export type HandlerOutput<TResult> =
+  TResult extends HandlerResult<infer TBody> ? TBody : TResult extends Response | ReadableStream ? unknown : TResult;
+
+export type MiddlewareNextFn = (ctx?: Record<string, unknown>) => Promise<Response>;
+
+/**
+ * A middleware receives the validated input and the context built by previous middlewares. It can return an object to
+ * extend the context, return a response to stop the execution, or call `next` to run the rest of the chain and return
+ * its response.
+ */
+export type MiddlewareFunction<
+  TParams,
+  TQuery,
+  TBody,
+  TContext,
+  TResult,
+  THeaders = Record<string, string>,
+  TCookies = Record<string, string>,
+> = (args: {
+  request: Request;
+  params: TParams;
+  query: TQuery;
+  body: TBody;
+  headers: THeaders;
+  cookies: TCookies;
+  ctx: TContext;
+  next: MiddlewareNextFn;
+  signal: AbortSignal;
+}) => TResult | Promise<TResult>;
+
+/**
+ * A middleware that runs before the request body is parsed and validated. It can't access the params, query or body,
+ * but can extend the context, respond early or call `next` like any other middleware.
+ */
+export type BeforeParsingMiddlewareFunction<TContext, TResult> = (args: {
+  request: Request;
+  ctx: TContext;
+  next: MiddlewareNextFn;
+  signal: AbortSignal;
+}) => TResult | Promise<TResult>;
+
+/**
+ * When a middleware runs
+ * - `beforeParsing`: before the request body is parsed and the params, query and body are validated
+ * - `afterValidation`: after validation, with access to the validated input
+ */
+export type MiddlewarePhase = 'beforeParsing' | 'afterValidation';
+
+/**
+ * Replacements for the middlewares of a route in tests, keyed by the middleware passed to `use`: either a middleware
+ * to run instead, or the context to provide in its place
+ */
+export type MiddlewareOverrides = Map<
+  (...args: any[]) => unknown,
+  ((...args: any[]) => unknown) | Record<string, unknown>
+>;
+
+export type MiddlewareReturnType = Record<string, unknown> | Response | undefined | void;
+
+/**
+ * The context added by a middleware, based on its return type
+ */
+export type MiddlewareContext<TResult> = [Exclude<TResult, Response | undefined | void>] extends [never]
+  ? unknown
+  : Exclude<TResult, Response | undefined | void>;
 
 export interface RouteHandlerBuilderConfig {
   paramsSchema: Schema;
   querySchema: Schema;
   bodySchema: Schema;
+  headersSchema: Schema;
+  cookiesSchema: Schema;
 }
 
-export type OriginalRouteHandler = (request: Request, context?: { params: Record<string, unknown> }) => any;
+/**
+ * The params of the dynamic segments of a route, with arrays for catch-all segments (`[...slug]`) and undefined for
+ * optional catch-all segments (`[[...slug]]`)
+ */
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+/**
+ * The route segment context passed by Next.js, whose params are a promise since Next.js 15
+ */
+export type RouteContext = { params: RouteParams | Promise<RouteParams> };
+
+/**
+ * The route handler signature Next.js expects. The first signature accepts params both as is (Next.js 14) and as a
+ * promise (Next.js 15), while the last one matches the type check Next.js 15 runs against route exports.
+ */
+export type OriginalRouteHandler = {
+  (request: Request, context?: RouteContext): Promise<Response>;
+  (request: Request, context: { params: Promise<RouteParams> }): Promise<Response>;
+};
+
+/**
+ * The input of a route as sent by its callers, before any transforms, coercions or defaults
+ */
+export type RouteInput = { params: unknown; query: unknown; body: unknown };
+
+/**
+ * The route handler created by the builder, carrying the types of its input and JSON output
+ */
+export type SafeRouteHandler<TOutput = unknown, TInput extends RouteInput = RouteInput> = OriginalRouteHandler & {
+  readonly __output?: TOutput;
+  readonly __input?: TInput;
+};
+
+/**
+ * Infer the type of the JSON output of a route handler created by the builder
+ */
+export type InferRouteOutput<THandler> = THandler extends SafeRouteHandler<infer TOutput> ? TOutput : never;
+
+/**
+ * Infer the types of the params, query and body a route handler created by the builder accepts
+ */
+export type InferRouteInput<THandler> = THandler extends SafeRouteHandler<any, infer TInput> ? TInput : never;
+
+/**
+ * The HTTP methods a route can export
+ */
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+/**
+ * The route handlers of a route group, with one function per method deriving its handler from the shared builder
+ */
+export type MethodHandlers<TBuilder> = Partial<Record<HttpMethod, (builder: TBuilder) => OriginalRouteHandler>>;
+
+/**
+ * The route handlers exported by a route group, with the generated handlers for the methods it does not define
+ */
+export type MethodRouteHandlers<THandlers> = {
+  [K in keyof THandlers]: THandlers[K] extends (...args: never[]) => infer THandler ? THandler : never;
+} & Record<Exclude<HttpMethod, keyof THandlers>, OriginalRouteHandler>;
+
+/**
+ * The metadata of a route, used to document it in OpenAPI documents
+ */
+export type RouteMeta = {
+  /** The path of the route, e.g. `/items/[id]`, with dynamic segments in the Next.js or OpenAPI notation */
+  path?: string;
+  /** The method of the route, needed for routes registered on their own rather than as route module exports */
+  method?: HttpMethod;
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  deprecated?: boolean;
+};
+
+/**
+ * Everything a route handler created by the builder knows about its route, used to generate OpenAPI documents
+ */
+export type RouteDefinition = {
+  meta: RouteMeta;
+  paramsSchema?: Schema;
+  querySchema?: Schema;
+  bodySchema?: Schema;
+  headersSchema?: Schema;
+  cookiesSchema?: Schema;
+  contentTypes?: string[];
+  responseSchemas?: { default?: Schema; statuses?: Record<number, Schema> };
+  timeout?: number;
+  rateLimits?: Array<{ options: RateLimitOptions<any> }>;
+  idempotency?: { options: IdempotencyOptions<any> };
+  validationAdapter: ValidationAdapter;
+};
+
+/**
+ * The category of an error caught by the route handler
+ * - `validation`: the request failed parsing or validation, which is a client error
+ * - `http`: an `HttpError` was thrown by a handler or middleware
+ * - `server`: any other error thrown while handling the request
+ */
+export type ErrorCategory = 'validation' | 'http' | 'server';
+
+export type HandlerServerErrorFn = (
+  error: Error,
+  context: { request: Request; category: ErrorCategory },
+) => Response | void | Promise<Response | void>;
+
+export type FormatValidationErrorFn = (error: SafeRouteValidationError) => Response;
+
+/**
+ * What to do when a response does not match its schema
+ * - `error`: respond with a 500 error through the usual error handling
+ * - `log`: log the issues and send the response as is
+ * - `off`: skip response validation
+ */
+export type ResponseValidationMode = 'error' | 'log' | 'off';
+
+/**
+ * The result of a server action: its data, the issues of the input that failed validation, or the message of the
+ * error it threw
+ */
+export type ActionResult<TData> =
+  | { data: TData; validationErrors?: undefined; serverError?: undefined }
+  | { data?: undefined; validationErrors: ValidationIssue[]; serverError?: undefined }
+  | { data?: undefined; validationErrors?: undefined; serverError: string };
+
+export type ActionNextFn = (ctx?: Record<string, unknown>) => Promise<ActionResult<unknown>>;
+
+export type ActionMiddlewareReturnType = Record<string, unknown> | undefined | void;
+
+/**
+ * A middleware of a server action receives the validated input and the context built by previous middlewares. It can
+ * return an object to extend the context, throw to stop the execution, or call `next` to run the rest of the chain and
+ * return its result. Middlewares that only use the context, such as `async () => ({ user: await getUser() })`, can be
+ * shared with route handlers.
+ */
+export type ActionMiddlewareFunction<TInput, TContext, TResult> = (args: {
+  input: TInput;
+  ctx: TContext;
+  next: ActionNextFn;
+}) => TResult | Promise<TResult>;
+
+export type ActionHandlerFunction<TInput, TContext, TResult = any> = (
+  input: TInput,
+  context: { data: TContext },
+) => TResult | Promise<TResult>;
+
+/**
+ * The server action created by the builder, accepting its input as an object or as form data
+ */
+export type SafeAction<TInput, TData> = (input: TInput | FormData) => Promise<ActionResult<TData>>;
 
-export type HandlerServerErrorFn = (error: Error) => Response;
+/**
+ * Handle an error thrown by a server action. Return a message to send as the server error, or nothing to fall back to
+ * the message of HTTP errors and a generic message for any other error.
+ */
+export type ActionServerErrorFn = (
+  error: Error,
+  context: { category: Exclude<ErrorCategory, 'validation'> },
+) => string | void | Promise<string | void>;
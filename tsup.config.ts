@@ -1,9 +1,19 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig((options) => ({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    client: 'src/client.ts',
+    testing: 'src/testing.ts',
+    'adapters/zod': 'src/adapters/zod.ts',
+    'adapters/valibot': 'src/adapters/valibot.ts',
+    'adapters/yup': 'src/adapters/yup.ts',
+    'adapters/typebox': 'src/adapters/typebox.ts',
+  },
   dts: true,
   sourcemap: true,
   format: ['cjs', 'esm'],
+  // Share the modules of the entry points in chunks for CommonJS too, so that their symbols are the same
+  splitting: true,
   minify: !options.watch,
 }));